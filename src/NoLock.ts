@@ -62,6 +62,24 @@ export class NoLock implements AnyLock {
         return Promise.resolve();
     }
 
+    /**
+     * Acknowledges nothing, because it's no lock
+     *
+     * @return {Promise<void>}
+     */
+    public async ack(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /**
+     * Never processed, because it's no lock
+     *
+     * @return {boolean}
+     */
+    public isProcessed(): boolean {
+        return false;
+    }
+
     /**
      * Always acquired, because it's no lock
      *
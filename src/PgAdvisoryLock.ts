@@ -0,0 +1,242 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type Notification } from 'pg';
+import { ident } from 'pg-format';
+import { hash } from 'node:crypto';
+import { type AnyLock } from './types/index.js';
+import { type PgAdvisoryLockOptions } from './types/PgAdvisoryLockOptions.js';
+type Timeout = NodeJS.Timeout;
+
+/**
+ * Implements inter-process locking for a given `LISTEN` channel on top of
+ * postgres session-level advisory locks, keyed by a hash of the channel
+ * name. Unlike PgIpLock it requires no schema, table, trigger or function,
+ * so it works for roles without DDL privileges.
+ *
+ * Advisory lock is held by the database session, so it is freed by the
+ * database once the holder's session terminates, whatever the reason.
+ * Other instances capture a free lock on periodic acquire retries (see
+ * `acquireInterval`), or right away, when the lock is released gracefully,
+ * as release is announced over a lock release channel.
+ *
+ * Advisory locks can not keep processed-message markers, so this lock does
+ * not support per-message (unique) locking of execution lock mode.
+ *
+ * Usually you do not need to instantiate this class directly - it will be
+ * done by a PgPubSub instances on their needs, see `lockStrategy` option.
+ */
+export class PgAdvisoryLock implements AnyLock {
+    private acquired = false;
+    private notifyHandler?: (message: Notification) => void;
+    private acquireTimer?: Timeout;
+
+    /**
+     * Advisory lock key: signed 64-bit integer derived from the channel
+     * name
+     *
+     * @return {string}
+     */
+    public get key(): string {
+        return BigInt.asIntN(
+            64,
+            BigInt(`0x${hash('sha256', this.channel, 'hex').slice(0, 16)}`),
+        ).toString();
+    }
+
+    /**
+     * @constructor
+     * @param {string} channel - source channel name to manage locking on
+     * @param {PgAdvisoryLockOptions} options - lock instantiate options
+     */
+    public constructor(
+        public readonly channel: string,
+        public readonly options: PgAdvisoryLockOptions,
+    ) {
+        this.channel = `__${PgAdvisoryLock.name}__:${channel.replace(
+            RX_ADVISORY_LOCK_CHANNEL,
+            '',
+        )}`;
+    }
+
+    /**
+     * Starts listening of lock release events and initializes lock
+     * acquire retry timer. No database objects are created.
+     *
+     * @return {Promise<void>}
+     */
+    public async init(): Promise<void> {
+        if (this.notifyHandler) {
+            this.options.pgClient.on('notification', this.notifyHandler);
+        }
+
+        await this.options.pgClient.query(`LISTEN ${ident(this.channel)}`);
+
+        if (!this.acquireTimer) {
+            this.acquireTimer = setInterval(
+                () => !this.acquired && this.acquire(),
+                this.options.acquireInterval,
+            );
+        }
+    }
+
+    /**
+     * This would provide release handler which will be called once the
+     * lock is released gracefully and the channel name would be bypassed
+     * to a given handler
+     *
+     * @param {(channel: string) => void} handler
+     */
+    public onRelease(handler: (channel: string) => void): void {
+        if (this.notifyHandler) {
+            throw new TypeError(
+                'Release handler for advisory lock has been already set up!',
+            );
+        }
+
+        this.notifyHandler = (message): void => {
+            if (message.channel === this.channel) {
+                handler(this.channel.replace(RX_ADVISORY_LOCK_CHANNEL, ''));
+            }
+        };
+
+        this.options.pgClient.on('notification', this.notifyHandler);
+    }
+
+    /**
+     * Tries to acquire advisory lock of the current channel without
+     * waiting. Returns true on success, false - otherwise
+     *
+     * @return {Promise<boolean>}
+     */
+    public async acquire(): Promise<boolean> {
+        if (this.acquired) {
+            // advisory locks are re-entrant: acquiring it again within
+            // the session would require as many unlocks to free it
+            return true;
+        }
+
+        try {
+            const { rows } = await this.options.pgClient.query(
+                'SELECT PG_TRY_ADVISORY_LOCK($1::BIGINT) AS acquired',
+                [this.key],
+            );
+
+            this.acquired = !!rows?.[0]?.acquired;
+        } catch (err) {
+            this.acquired = false;
+            this.options.logger.error(err);
+        }
+
+        return this.acquired;
+    }
+
+    /**
+     * Releases acquired advisory lock and announces the release, so
+     * another running process or host could acquire it right away.
+     *
+     * @return {Promise<void>}
+     */
+    public async release(): Promise<void> {
+        if (!this.acquired) {
+            return;
+        }
+
+        await this.options.pgClient.query(
+            'SELECT PG_ADVISORY_UNLOCK($1::BIGINT), PG_NOTIFY($2, $3)',
+            [this.key, this.channel, '1'],
+        );
+
+        this.acquired = false;
+    }
+
+    /**
+     * Acknowledges nothing: advisory locks do not keep processed-message
+     * markers
+     *
+     * @return {Promise<void>}
+     */
+    public async ack(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /**
+     * Never processed: advisory locks do not keep processed-message
+     * markers
+     *
+     * @return {boolean}
+     */
+    public isProcessed(): boolean {
+        return false;
+    }
+
+    /**
+     * Returns current lock state, true if acquired, false - otherwise.
+     *
+     * @return {boolean}
+     */
+    public isAcquired(): boolean {
+        return this.acquired;
+    }
+
+    /**
+     * Destroys this lock properly.
+     *
+     * @return {Promise<void>}
+     */
+    public async destroy(): Promise<void> {
+        try {
+            const queries: Promise<any>[] = [
+                this.release(),
+                this.options.pgClient.query(`UNLISTEN ${ident(this.channel)}`),
+            ];
+
+            this.dispose();
+
+            await Promise.all(queries);
+        } catch (err) {
+            // do not crash - just log
+            this.options.logger?.error?.(err);
+        }
+    }
+
+    /**
+     * Frees all local resources held by this lock (acquire timer, client
+     * notification listener) without touching the database. The advisory
+     * lock itself is freed by the database with the session.
+     */
+    public dispose(): void {
+        if (this.notifyHandler) {
+            this.options.pgClient.off('notification', this.notifyHandler);
+        }
+
+        if (this.acquireTimer) {
+            clearInterval(this.acquireTimer);
+            delete this.acquireTimer;
+        }
+
+        this.acquired = false;
+    }
+}
+
+export const RX_ADVISORY_LOCK_CHANNEL = new RegExp(
+    `^(__${PgAdvisoryLock.name}__:)+`,
+);
@@ -0,0 +1,94 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import {
+    type AnyJson,
+    type PgMessageHandler,
+    type PgNotifyOptions,
+    type PgSubscribeOptions,
+} from './types/index.js';
+import { type PgPubSub } from './PgPubSub.js';
+
+/**
+ * Implements typed handle of a particular channel, returned by
+ * `PgPubSub.channel()`. Payloads are validated by the channel validator,
+ * if any, on both publish and receipt: invalid payloads are rejected on
+ * publish and reported with `'invalid'` event of the `PgPubSub` instance
+ * on receipt, never reaching the handlers.
+ *
+ * @example
+ * ```typescript
+ * interface Order { id: number }
+ *
+ * const isOrder = (payload: unknown): payload is Order =>
+ *     typeof payload === 'object' &&
+ *     payload !== null &&
+ *     'id' in payload &&
+ *     typeof payload.id === 'number';
+ *
+ * const orders = pubSub.channel('orders', { validate: isOrder });
+ *
+ * await orders.subscribe(order => console.log(order.id));
+ * await orders.publish({ id: 1 });
+ * ```
+ */
+export class PgChannel<T = AnyJson> {
+    /**
+     * @constructor
+     * @param {PgPubSub} pubSub - pub/sub instance the channel belongs to
+     * @param {string} name - channel name
+     */
+    public constructor(
+        public readonly pubSub: PgPubSub,
+        public readonly name: string,
+    ) {}
+
+    /**
+     * Publishes given payload to this channel. Rejects with `TypeError` if
+     * the payload is invalid.
+     *
+     * @param {T} payload - payload to publish
+     * @param {PgNotifyOptions} [options] - notify options
+     * @return {Promise<void>}
+     */
+    public async publish(payload: T, options?: PgNotifyOptions): Promise<void> {
+        await this.pubSub.notify(this.name, payload as AnyJson, options);
+    }
+
+    /**
+     * Subscribes given handler to this channel, see `PgPubSub.subscribe()`.
+     * Resolves a function, which unsubscribes the handler.
+     *
+     * @param {PgMessageHandler<T>} handler - message handler
+     * @param {PgSubscribeOptions} [options] - subscription options
+     * @return {Promise<() => void>}
+     */
+    public async subscribe(
+        handler: PgMessageHandler<T>,
+        options?: PgSubscribeOptions,
+    ): Promise<() => void> {
+        return this.pubSub.subscribe(
+            this.name,
+            handler as PgMessageHandler,
+            options,
+        );
+    }
+}
@@ -0,0 +1,358 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { ident } from 'pg-format';
+import { LOG_KEY, MAX_PAYLOAD_LENGTH, SCHEMA_NAME } from './constants.js';
+import { bootstrapOnce } from './helpers.js';
+import { type PgChannelLogOptions } from './types/PgChannelLogOptions.js';
+import { type PgQueryable } from './types/PgQueryable.js';
+
+/**
+ * Represents single entry of a durable channel log
+ */
+export interface PgChannelLogEntry {
+    seq: number;
+    body: string;
+}
+
+/**
+ * Implements durable channel log: published messages are appended to the
+ * log table with monotonically increasing sequence numbers, and every
+ * subscriber persists the last sequence it has seen per channel, so the
+ * messages missed while it was disconnected can be replayed.
+ *
+ * Log entries expire by TTL: expired rows are cleaned up on subsequent
+ * appends.
+ *
+ * Usually you do not need to instantiate this class directly - it will be
+ * done by a PgPubSub instances on their needs.
+ */
+export class PgChannelLog {
+    /**
+     * DB log schema name getter
+     *
+     * @return {string}
+     */
+    public get schemaName(): string {
+        return ident(SCHEMA_NAME);
+    }
+
+    /**
+     * @constructor
+     * @param {PgChannelLogOptions} options - channel log instantiate options
+     */
+    public constructor(public readonly options: PgChannelLogOptions) {}
+
+    /**
+     * Appends given packed message to a given channel log and sends NOTIFY
+     * with the entry envelope to the channel within the same statement, so
+     * the entry is never logged without being sent, nor sent without being
+     * logged. Returns the sequence number assigned to the entry.
+     *
+     * @param {string} channel - channel message is published to
+     * @param {string} packed - serialized message body
+     * @param {PgQueryable} [client] - client to write with, e.g. running
+     * caller's transaction; table bootstrap is still done by own client
+     * @return {Promise<number>}
+     */
+    public async append(
+        channel: string,
+        packed: string,
+        client: PgQueryable = this.options.pgClient,
+    ): Promise<number> {
+        await this.ensureTables();
+
+        // expired entries cleanup rides along in the same round-trip
+        // noinspection SqlResolve
+        const {
+            rows: [{ seq }],
+        } = await client.query(
+            `
+            WITH expired AS (
+                DELETE FROM ${this.schemaName}.channel_log
+                WHERE created_at < NOW() - MAKE_INTERVAL(secs => $3)
+            ), entry AS (
+                INSERT INTO ${this.schemaName}.channel_log (channel, body)
+                VALUES ($1, $2)
+                RETURNING seq, channel, body
+            )
+            ${PgChannelLog.notifyEntries()}
+        `,
+            [channel, packed, this.options.ttl, LOG_KEY, MAX_PAYLOAD_LENGTH],
+        );
+
+        return +seq;
+    }
+
+    /**
+     * Appends given packed messages to the given channel logs and sends
+     * NOTIFY with their envelopes in a single statement, returning
+     * sequence numbers assigned to the entries in the order of given
+     * messages
+     *
+     * @param {string[]} channels - channels messages are published to
+     * @param {string[]} packed - serialized message bodies
+     * @param {PgQueryable} [client] - client to write with, e.g. running
+     * caller's transaction; table bootstrap is still done by own client
+     * @return {Promise<number[]>}
+     */
+    public async appendMany(
+        channels: string[],
+        packed: string[],
+        client: PgQueryable = this.options.pgClient,
+    ): Promise<number[]> {
+        await this.ensureTables();
+
+        // noinspection SqlResolve
+        const { rows } = await client.query(
+            `
+            WITH expired AS (
+                DELETE FROM ${this.schemaName}.channel_log
+                WHERE created_at < NOW() - MAKE_INTERVAL(secs => $3)
+            ), entry AS (
+                INSERT INTO ${this.schemaName}.channel_log (channel, body)
+                SELECT * FROM UNNEST($1::VARCHAR[], $2::TEXT[])
+                RETURNING seq, channel, body
+            )
+            ${PgChannelLog.notifyEntries()}
+        `,
+            [channels, packed, this.options.ttl, LOG_KEY, MAX_PAYLOAD_LENGTH],
+        );
+
+        // sequence is assigned in the insertion order
+        return rows.map(({ seq }) => +seq).sort((a, b) => a - b);
+    }
+
+    /**
+     * Fetches logged message body by a given sequence number. Returns
+     * undefined if there is no such entry (e.g. it has already expired).
+     *
+     * @param {number} seq - log entry sequence number
+     * @return {Promise<string | undefined>}
+     */
+    public async fetch(seq: number): Promise<string | undefined> {
+        await this.ensureTables();
+
+        // noinspection SqlResolve
+        const { rows } = await this.options.pgClient.query(
+            `SELECT body FROM ${this.schemaName}.channel_log WHERE seq = $1`,
+            [seq],
+        );
+
+        return rows?.[0]?.body;
+    }
+
+    /**
+     * Returns the latest sequence number logged for a given channel, 0 if
+     * the channel log is empty
+     *
+     * @param {string} channel - channel name
+     * @return {Promise<number>}
+     */
+    public async head(channel: string): Promise<number> {
+        await this.ensureTables();
+
+        // noinspection SqlResolve
+        const { rows } = await this.options.pgClient.query(
+            `
+            SELECT MAX(seq) AS seq FROM ${this.schemaName}.channel_log
+            WHERE channel = $1
+        `,
+            [channel],
+        );
+
+        return +(rows?.[0]?.seq || 0);
+    }
+
+    /**
+     * Returns the last sequence number given subscriber has seen on a
+     * given channel, undefined if it has never subscribed to the channel
+     *
+     * @param {string} subscriber - subscriber identifier
+     * @param {string} channel - channel name
+     * @return {Promise<number | undefined>}
+     */
+    public async cursor(
+        subscriber: string,
+        channel: string,
+    ): Promise<number | undefined> {
+        await this.ensureTables();
+
+        // noinspection SqlResolve
+        const { rows } = await this.options.pgClient.query(
+            `
+            SELECT seq FROM ${this.schemaName}.channel_cursor
+            WHERE subscriber = $1 AND channel = $2
+        `,
+            [subscriber, channel],
+        );
+
+        return rows?.length ? +rows[0].seq : undefined;
+    }
+
+    /**
+     * Persists given sequence number as the last one seen by a given
+     * subscriber on a given channel. Cursors never move backwards.
+     *
+     * @param {string} subscriber - subscriber identifier
+     * @param {string} channel - channel name
+     * @param {number} seq - last seen sequence number
+     * @return {Promise<void>}
+     */
+    public async commit(
+        subscriber: string,
+        channel: string,
+        seq: number,
+    ): Promise<void> {
+        await this.ensureTables();
+
+        // noinspection SqlResolve
+        await this.options.pgClient.query(
+            `
+            INSERT INTO ${this.schemaName}.channel_cursor
+                (subscriber, channel, seq)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (subscriber, channel) DO
+            UPDATE SET seq = GREATEST(
+                ${this.schemaName}.channel_cursor.seq,
+                EXCLUDED.seq
+            )
+        `,
+            [subscriber, channel, seq],
+        );
+    }
+
+    /**
+     * Returns all entries of a given channel log following a given
+     * sequence number, up to a given one if any, in the order they were
+     * logged
+     *
+     * @param {string} channel - channel name
+     * @param {number} seq - sequence number to read after
+     * @param {number} [until] - last sequence number to read
+     * @return {Promise<PgChannelLogEntry[]>}
+     */
+    public async since(
+        channel: string,
+        seq: number,
+        until?: number,
+    ): Promise<PgChannelLogEntry[]> {
+        await this.ensureTables();
+
+        // noinspection SqlResolve
+        const { rows } = await this.options.pgClient.query(
+            `
+            SELECT seq, body FROM ${this.schemaName}.channel_log
+            WHERE channel = $1 AND seq > $2
+                AND ($3::BIGINT IS NULL OR seq <= $3)
+            ORDER BY seq
+        `,
+            [channel, seq, until ?? null],
+        );
+
+        return (rows || []).map(row => ({ seq: +row.seq, body: row.body }));
+    }
+
+    /**
+     * Builds query selecting sequence numbers of the inserted `entry` rows,
+     * which sends NOTIFY with every entry envelope in sequence order. The
+     * payload travels along with the sequence if the envelope fits postgres
+     * limit, otherwise listeners fetch it from the log. Envelope key and
+     * the limit are bound as $4 and $5 parameters.
+     *
+     * @access private
+     * @return {string}
+     */
+    private static notifyEntries(): string {
+        // noinspection SqlResolve
+        return `
+            SELECT seq, PG_NOTIFY(
+                channel,
+                CASE WHEN OCTET_LENGTH(envelope) > $5::INTEGER
+                    THEN '{"' || $4::TEXT || '":' || seq || '}'
+                    ELSE envelope
+                END
+            )
+            FROM (
+                SELECT seq, channel,
+                    '{"' || $4::TEXT || '":' || seq ||
+                        ',"payload":' || body || '}' AS envelope
+                FROM entry
+                ORDER BY seq
+            ) AS message
+        `;
+    }
+
+    /**
+     * Ensures the log tables exist, bootstrapping them at most once per
+     * connection. A failed bootstrap is not memoized, so a later call may
+     * retry it.
+     *
+     * @return {Promise<void>}
+     */
+    private ensureTables(): Promise<void> {
+        return bootstrapOnce(this.options.pgClient, 'channel_log', () =>
+            this.createTables(),
+        );
+    }
+
+    /**
+     * Creates log schema, log and cursor tables. Logs and rethrows on
+     * failure (e.g. missing ddl privileges) so it is visible.
+     *
+     * @return {Promise<void>}
+     */
+    private async createTables(): Promise<void> {
+        try {
+            await this.options.pgClient.query(`
+                CREATE SCHEMA IF NOT EXISTS ${this.schemaName}
+            `);
+            await this.options.pgClient.query(`
+                CREATE TABLE IF NOT EXISTS ${this.schemaName}."channel_log" (
+                    "seq" BIGSERIAL NOT NULL PRIMARY KEY,
+                    "channel" CHARACTER VARYING NOT NULL,
+                    "body" TEXT NOT NULL,
+                    "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+                )
+            `);
+            await this.options.pgClient.query(`
+                CREATE INDEX IF NOT EXISTS "channel_log_channel_seq_idx"
+                    ON ${this.schemaName}."channel_log" ("channel", "seq")
+            `);
+            await this.options.pgClient.query(`
+                CREATE TABLE IF NOT EXISTS ${this.schemaName}."channel_cursor" (
+                    "subscriber" CHARACTER VARYING NOT NULL,
+                    "channel" CHARACTER VARYING NOT NULL,
+                    "seq" BIGINT NOT NULL,
+                    PRIMARY KEY ("subscriber", "channel")
+                )
+            `);
+        } catch (err) {
+            this.options.logger.error(
+                'PgChannelLog: channel log initialization failed, ' +
+                    'durable delivery will not work properly!',
+                err,
+            );
+
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,198 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { ident } from 'pg-format';
+import { SCHEMA_NAME } from './constants.js';
+import { bootstrapOnce, unpack } from './helpers.js';
+import { type PgDeadLetter } from './types/index.js';
+import { type PgDeadLetterStoreOptions } from './types/PgDeadLetterStoreOptions.js';
+
+/**
+ * Implements storage of dead letters - messages which handlers kept
+ * failing on. Dead letters are parked in the `dead_letter` table of the
+ * lock schema along with the failure details and stay there until they
+ * are taken out to be re-driven.
+ *
+ * Usually you do not need to instantiate this class directly - it will be
+ * done by a PgPubSub instances on their needs.
+ */
+export class PgDeadLetterStore {
+    /**
+     * DB dead-letter schema name getter
+     *
+     * @return {string}
+     */
+    public get schemaName(): string {
+        return ident(SCHEMA_NAME);
+    }
+
+    /**
+     * @constructor
+     * @param {PgDeadLetterStoreOptions} options - store instantiate options
+     */
+    public constructor(public readonly options: PgDeadLetterStoreOptions) {}
+
+    /**
+     * Parks given packed message body published to a given channel,
+     * returning the identifier of the created dead letter
+     *
+     * @param {string} channel - channel message is published to
+     * @param {string} packed - serialized message body
+     * @param {string} error - last handling error message
+     * @param {number} attempts - number of failed handling attempts
+     * @return {Promise<number>}
+     */
+    public async park(
+        channel: string,
+        packed: string,
+        error: string,
+        attempts: number,
+    ): Promise<number> {
+        await this.ensureTable();
+
+        // noinspection SqlResolve
+        const {
+            rows: [{ id }],
+        } = await this.options.pgClient.query(
+            `
+            INSERT INTO ${this.schemaName}.dead_letter
+                (channel, body, error, attempts, app)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING id
+        `,
+            [channel, packed, error, attempts, this.options.pgClient.appName],
+        );
+
+        return +id;
+    }
+
+    /**
+     * Returns dead letters parked for a given channel, or for all channels
+     * if channel is not given, in the order they were parked
+     *
+     * @param {string} [channel] - channel name
+     * @return {Promise<PgDeadLetter[]>}
+     */
+    public async list(channel?: string): Promise<PgDeadLetter[]> {
+        await this.ensureTable();
+
+        // noinspection SqlResolve
+        const { rows } = await this.options.pgClient.query(
+            `
+            SELECT * FROM ${this.schemaName}.dead_letter
+            ${channel === undefined ? '' : 'WHERE channel = $1'}
+            ORDER BY id
+        `,
+            channel === undefined ? [] : [channel],
+        );
+
+        return (rows || []).map(row => this.toDeadLetter(row));
+    }
+
+    /**
+     * Removes dead letter with a given identifier from the store and
+     * returns it. Returns undefined if there is no such dead letter (e.g.
+     * it has already been taken by another instance).
+     *
+     * @param {number} id - dead letter identifier
+     * @return {Promise<PgDeadLetter | undefined>}
+     */
+    public async take(id: number): Promise<PgDeadLetter | undefined> {
+        await this.ensureTable();
+
+        // noinspection SqlResolve
+        const { rows } = await this.options.pgClient.query(
+            `
+            DELETE FROM ${this.schemaName}.dead_letter
+            WHERE id = $1
+            RETURNING *
+        `,
+            [id],
+        );
+
+        return rows?.length ? this.toDeadLetter(rows[0]) : undefined;
+    }
+
+    /**
+     * Maps given dead-letter table row to a dead letter
+     *
+     * @access private
+     * @param {any} row - table row
+     * @return {PgDeadLetter}
+     */
+    private toDeadLetter(row: any): PgDeadLetter {
+        return {
+            id: +row.id,
+            channel: row.channel,
+            payload: unpack(row.body, this.options.logger),
+            error: row.error,
+            attempts: +row.attempts,
+            app: row.app,
+            createdAt: new Date(row.created_at),
+        };
+    }
+
+    /**
+     * Ensures the dead-letter table exists, bootstrapping it at most once
+     * per connection. A failed bootstrap is not memoized, so a later call
+     * may retry it.
+     *
+     * @return {Promise<void>}
+     */
+    private ensureTable(): Promise<void> {
+        return bootstrapOnce(this.options.pgClient, 'dead_letter', () =>
+            this.createTable(),
+        );
+    }
+
+    /**
+     * Creates dead-letter schema and table. Logs and rethrows on failure
+     * (e.g. missing ddl privileges) so it is visible.
+     *
+     * @return {Promise<void>}
+     */
+    private async createTable(): Promise<void> {
+        try {
+            await this.options.pgClient.query(`
+                CREATE SCHEMA IF NOT EXISTS ${this.schemaName}
+            `);
+            await this.options.pgClient.query(`
+                CREATE TABLE IF NOT EXISTS ${this.schemaName}."dead_letter" (
+                    "id" BIGSERIAL NOT NULL PRIMARY KEY,
+                    "channel" CHARACTER VARYING NOT NULL,
+                    "body" TEXT NOT NULL,
+                    "error" TEXT NOT NULL,
+                    "attempts" INTEGER NOT NULL,
+                    "app" CHARACTER VARYING NOT NULL,
+                    "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+                )
+            `);
+        } catch (err) {
+            this.options.logger.error(
+                'PgDeadLetterStore: dead-letter table initialization ' +
+                    'failed, failing messages will not be parked!',
+                err,
+            );
+
+            throw err;
+        }
+    }
+}
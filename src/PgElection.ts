@@ -0,0 +1,290 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type AnyLock, type PgElectOptions } from './types/index.js';
+import { type PgPubSub } from './PgPubSub.js';
+
+/**
+ * Hooks pub/sub instance provides to its elections
+ */
+export interface PgElectionHooks {
+    /**
+     * Builds a fresh initialized election lock on the current connection
+     * of pub/sub instance
+     */
+    createLock(): Promise<AnyLock>;
+
+    /**
+     * Called once the election is left, so pub/sub instance could forget it
+     */
+    onStop(election: PgElection): void;
+}
+
+/**
+ * Implements leader election among the processes holding elections under
+ * the same name, returned by `PgPubSub.elect()`. The leadership is held
+ * on an inter-process lock of a dedicated lock channel, so it does not
+ * depend on any channel being listened. Once the leader resigns or
+ * destroys its pub/sub instance, the lock release event lets another
+ * candidate take the leadership over right away. If the leader connection
+ * dies silently, other candidates capture the lock on their next acquire
+ * retry (see `acquireInterval` option). Candidate losing its connection
+ * is demoted and runs for the leadership again once re-connected.
+ */
+export class PgElection {
+    private lock?: AnyLock;
+    private leader = false;
+    private resigned = false;
+    private campaigning?: Promise<void>;
+    private timer?: NodeJS.Timeout;
+
+    /**
+     * @constructor
+     * @param {PgPubSub} pubSub - pub/sub instance the election is held by
+     * @param {string} name - election name
+     * @param {PgElectionHooks} hooks - pub/sub instance hooks
+     * @param {PgElectOptions} [options] - election options
+     */
+    public constructor(
+        public readonly pubSub: PgPubSub,
+        public readonly name: string,
+        private readonly hooks: PgElectionHooks,
+        private readonly options: PgElectOptions = {},
+    ) {
+        this.onReconnecting = this.onReconnecting.bind(this);
+        this.onReconnect = this.onReconnect.bind(this);
+        this.onClose = this.onClose.bind(this);
+    }
+
+    /**
+     * Returns true if this instance is currently the leader, false -
+     * otherwise
+     *
+     * @return {boolean}
+     */
+    public isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Gives the leadership up, if held, and leaves the election for good,
+     * so another candidate could take the leadership over
+     *
+     * @return {Promise<void>}
+     */
+    public async resign(): Promise<void> {
+        if (this.resigned) {
+            return;
+        }
+
+        const lock = this.lock;
+
+        // demote before the lock is released, so the next leader never
+        // overlaps with this one
+        this.lock = undefined;
+        this.stop();
+
+        if (lock) {
+            await lock.destroy();
+        }
+    }
+
+    /**
+     * Starts running for the leadership
+     *
+     * @return {Promise<void>}
+     */
+    public async start(): Promise<void> {
+        this.pubSub.on('reconnecting', this.onReconnecting);
+        this.pubSub.on('reconnect', this.onReconnect);
+        this.pubSub.on('close', this.onClose);
+        this.timer = setInterval(
+            () => this.campaign(),
+            this.pubSub.options.acquireInterval,
+        );
+
+        try {
+            await this.run();
+        } catch (err) {
+            this.stop();
+
+            throw err;
+        }
+    }
+
+    /**
+     * Creates election lock on the current connection and campaigns
+     * for the leadership
+     *
+     * @access private
+     * @return {Promise<void>}
+     */
+    private async run(): Promise<void> {
+        const lock = await this.hooks.createLock();
+
+        if (this.resigned) {
+            // resigned while the lock was being created
+            lock.dispose();
+
+            return;
+        }
+
+        this.lock?.dispose();
+        this.lock = lock;
+        lock.onRelease(() => this.campaign());
+
+        await this.campaign();
+    }
+
+    /**
+     * Acquires election lock unless it is already held, and updates the
+     * leadership state with the result. Concurrent calls share a single
+     * attempt: acquiring the lock which is being acquired by the same
+     * instance would fail as held by another one.
+     *
+     * @access private
+     * @return {Promise<void>}
+     */
+    private campaign(): Promise<void> {
+        if (!this.campaigning) {
+            this.campaigning = (async () => {
+                const lock = this.lock;
+
+                if (!lock) {
+                    return;
+                }
+
+                if (!lock.isAcquired()) {
+                    await lock.acquire();
+                }
+
+                if (lock === this.lock) {
+                    this.setLeader(lock.isAcquired());
+                }
+            })()
+                .catch(err => this.pubSub.logger.error(err))
+                .finally(() => (this.campaigning = undefined));
+        }
+
+        return this.campaigning;
+    }
+
+    /**
+     * Updates leadership state, calling elected or demoted handler if
+     * it has changed
+     *
+     * @access private
+     * @param {boolean} leader
+     * @return {void}
+     */
+    private setLeader(leader: boolean): void {
+        if (leader === this.leader) {
+            return;
+        }
+
+        this.leader = leader;
+
+        const handler = leader
+            ? this.options.onElected
+            : this.options.onDemoted;
+
+        if (handler) {
+            (async () => handler())().catch(err =>
+                this.pubSub.logger.error(err),
+            );
+        }
+    }
+
+    /**
+     * Drops the lock bound to the lost connection, demoting this instance
+     *
+     * @access private
+     * @return {void}
+     */
+    private suspend(): void {
+        this.lock?.dispose();
+        this.lock = undefined;
+        this.setLeader(false);
+    }
+
+    /**
+     * Leaves the election, freeing all local resources
+     *
+     * @access private
+     * @return {void}
+     */
+    private stop(): void {
+        this.resigned = true;
+        this.pubSub.off('reconnecting', this.onReconnecting);
+        this.pubSub.off('reconnect', this.onReconnect);
+        this.pubSub.off('close', this.onClose);
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.suspend();
+        this.hooks.onStop(this);
+    }
+
+    /**
+     * Connection loss handler. Shard connections do not hold election
+     * locks, so their loss is ignored.
+     *
+     * @access private
+     * @param {number} attempt - re-connection attempt number
+     * @param {number} delay - delay before the attempt, ms
+     * @param {Error} [err] - error connection has been lost with, if any
+     * @param {number} [shard] - index of the lost shard connection
+     * @return {void}
+     */
+    private onReconnecting(
+        attempt: number,
+        delay: number,
+        err?: Error,
+        shard?: number,
+    ): void {
+        if (shard === undefined) {
+            this.suspend();
+        }
+    }
+
+    /**
+     * Re-connection handler. Shard re-connections are ignored.
+     *
+     * @access private
+     * @param {number} retries - number of retries made
+     * @param {number} [shard] - index of the re-connected shard connection
+     * @return {void}
+     */
+    private onReconnect(retries: number, shard?: number): void {
+        if (shard === undefined) {
+            this.run().catch(err => this.pubSub.logger.error(err));
+        }
+    }
+
+    /**
+     * Pub/sub instance close handler
+     *
+     * @access private
+     * @return {void}
+     */
+    private onClose(): void {
+        this.stop();
+    }
+}
@@ -0,0 +1,164 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type PgFragment } from './types/index.js';
+type Timeout = NodeJS.Timeout;
+
+/**
+ * Handler called whenever a chunked message has not been completely
+ * received in time
+ */
+export type FragmentTimeoutHandler = (
+    channel: string,
+    id: string,
+    received: number,
+    total: number,
+) => void;
+
+interface PendingMessage {
+    channel: string;
+    id: string;
+    total: number;
+    received: number;
+    parts: Buffer[];
+    timer: Timeout;
+}
+
+/**
+ * Implements reassembly of chunked NOTIFY payloads. Collects fragments per
+ * channel and message id until all of them arrive, dropping incomplete
+ * messages after a given timeout.
+ */
+export class PgFragmentAssembler {
+    private pending = new Map<string, PendingMessage>();
+
+    /**
+     * @constructor
+     * @param {number} timeout - time to wait for all message fragments, ms
+     * @param {FragmentTimeoutHandler} onTimeout - incomplete message handler
+     */
+    public constructor(
+        public readonly timeout: number,
+        private readonly onTimeout: FragmentTimeoutHandler,
+    ) {}
+
+    /**
+     * Accepts given fragment received on a given channel. Returns the whole
+     * packed message once its last fragment arrived, undefined - otherwise.
+     * Malformed and duplicate fragments are ignored.
+     *
+     * @param {string} channel - channel fragment received on
+     * @param {PgFragment} fragment - received fragment
+     * @return {string | undefined}
+     */
+    public add(channel: string, fragment: PgFragment): string | undefined {
+        if (!PgFragmentAssembler.isValid(fragment)) {
+            return undefined;
+        }
+
+        const key = `${channel}:${fragment.id}`;
+        let message = this.pending.get(key);
+
+        if (!message) {
+            message = {
+                channel,
+                id: fragment.id,
+                total: fragment.total,
+                received: 0,
+                parts: [],
+                timer: setTimeout(() => this.expire(key), this.timeout),
+            };
+            this.pending.set(key, message);
+        }
+
+        if (fragment.total !== message.total || message.parts[fragment.seq]) {
+            return undefined;
+        }
+
+        message.parts[fragment.seq] = Buffer.from(fragment.data, 'base64');
+
+        if (++message.received < message.total) {
+            return undefined;
+        }
+
+        clearTimeout(message.timer);
+        this.pending.delete(key);
+
+        return Buffer.concat(message.parts).toString('utf8');
+    }
+
+    /**
+     * Drops all pending incomplete messages and their expiration timers
+     *
+     * @return {void}
+     */
+    public clear(): void {
+        for (const message of this.pending.values()) {
+            clearTimeout(message.timer);
+        }
+
+        this.pending.clear();
+    }
+
+    /**
+     * Drops incomplete message under given key, reporting it to the timeout
+     * handler
+     *
+     * @access private
+     * @param {string} key - pending message key
+     * @return {void}
+     */
+    private expire(key: string): void {
+        const message = this.pending.get(key);
+
+        if (!message) {
+            return;
+        }
+
+        this.pending.delete(key);
+        this.onTimeout(
+            message.channel,
+            message.id,
+            message.received,
+            message.total,
+        );
+    }
+
+    /**
+     * Verifies given value is a well-formed fragment
+     *
+     * @access private
+     * @param {PgFragment} fragment - value to verify
+     * @return {boolean}
+     */
+    private static isValid(fragment: PgFragment): boolean {
+        return (
+            !!fragment &&
+            typeof fragment.id === 'string' &&
+            typeof fragment.data === 'string' &&
+            Number.isInteger(fragment.total) &&
+            Number.isInteger(fragment.seq) &&
+            fragment.total > 0 &&
+            fragment.seq >= 0 &&
+            fragment.seq < fragment.total
+        );
+    }
+}
@@ -19,10 +19,15 @@
  * purchase a proprietary commercial license. Please contact us at
  * <support@imqueue.com> to get commercial licensing options.
  */
-import { type Notification } from 'pg';
-import { ident, literal } from 'pg-format';
+import { type Notification, type QueryResult } from 'pg';
+import { ident } from 'pg-format';
 import { clearInterval } from 'node:timers';
-import { SCHEMA_NAME, SHUTDOWN_TIMEOUT, UNIQUE_LOCK_TTL } from './constants.js';
+import {
+    ACK_TIMEOUT,
+    SCHEMA_NAME,
+    SHUTDOWN_TIMEOUT,
+    UNIQUE_LOCK_TTL,
+} from './constants.js';
 import { type AnyLock } from './types/index.js';
 import { type PgIpLockOptions } from './types/PgIpLockOptions.js';
 type Timeout = NodeJS.Timeout;
@@ -78,6 +83,17 @@ export class PgIpLock implements AnyLock {
         return ident(SCHEMA_NAME + suffix);
     }
 
+    /**
+     * Fencing token of the current lock acquisition, taken from the lock
+     * schema sequence, so it grows monotonically with every successful
+     * acquire. Undefined while the lock is not acquired.
+     *
+     * @return {number | undefined}
+     */
+    public get fencingToken(): number | undefined {
+        return this.token;
+    }
+
     /**
      * Calls destroy() on all created instances at a time
      *
@@ -100,6 +116,8 @@ export class PgIpLock implements AnyLock {
 
     private static instances: PgIpLock[] = [];
     private acquired = false;
+    private processed = false;
+    private token?: number;
     private notifyHandler?: (message: Notification) => void;
     private acquireTimer?: Timeout;
 
@@ -179,26 +197,36 @@ export class PgIpLock implements AnyLock {
 
     /**
      * Acquires a lock on the current channel. Returns true on success,
-     * false - otherwise
+     * false - otherwise. Re-acquiring the lock already held keeps its
+     * fencing token. The token itself is not returned, as `acquire()`
+     * follows `AnyLock` contract shared with custom lock implementations;
+     * read it from `fencingToken` once acquired.
      *
      * @return {Promise<boolean>}
      */
     public async acquire(): Promise<boolean> {
         try {
-            if (this.uniqueKey) {
-                await this.acquireUniqueLock();
-            } else {
-                await this.acquireChannelLock();
-            }
+            const { rows } =
+                (this.uniqueKey
+                    ? await this.acquireUniqueLock()
+                    : await this.acquireChannelLock()) ?? {};
+            const token = rows?.[0]?.token;
 
+            this.token = token ? Number(token) : undefined;
             this.acquired = true;
         } catch (err) {
             // will throw, because insert duplicates existing lock
             this.acquired = false;
+            this.token = undefined;
 
             const pgErr = err as { code?: string; detail?: string };
+            const busy =
+                pgErr.code === 'P0001' &&
+                (pgErr.detail === 'LOCKED' || pgErr.detail === 'PROCESSED');
+
+            this.processed = busy && pgErr.detail === 'PROCESSED';
 
-            if (!(pgErr.code === 'P0001' && pgErr.detail === 'LOCKED')) {
+            if (!busy) {
                 this.options.logger.error(err);
             }
         }
@@ -273,52 +301,123 @@ export class PgIpLock implements AnyLock {
     }
 
     /**
-     * Acquires a lock with ID
+     * Acquires a lock with ID, resolving with the row of its fencing token
      *
-     * @return {Promise<void>}
+     * @return {Promise<QueryResult>}
      */
-    private async acquireUniqueLock(): Promise<void> {
+    private async acquireUniqueLock(): Promise<QueryResult> {
         // processed-message markers (see onNotificationLockExec) expire
-        // by TTL; cleanup rides along in the same round-trip
+        // by TTL; cleanup rides along in the same round-trip. A marker
+        // which was claimed, but not acknowledged, is re-claimed when its
+        // holder is gone or the visibility timeout has passed.
         // noinspection SqlResolve
-        await this.options.pgClient.query(`
+        return this.options.pgClient.query(
+            `
             WITH expired AS (
                 DELETE FROM ${this.schemaName}.lock
                 WHERE created_at < NOW() - MAKE_INTERVAL(
                     secs => ${UNIQUE_LOCK_TTL}
                 )
             )
-            INSERT INTO ${this.schemaName}.lock (id, channel, app)
-            VALUES (
-                ${literal(this.uniqueKey)},
-                ${literal(this.channel)},
-                ${literal(this.options.pgClient.appName)}
-            ) ON CONFLICT (id) DO
-            UPDATE SET app = ${this.schemaName}.deadlock_check(
+            INSERT INTO ${this.schemaName}.lock (id, channel, app, token)
+            VALUES ($1, $2, $3, NEXTVAL($5::REGCLASS)) ON CONFLICT (id) DO
+            UPDATE SET app = ${this.schemaName}.claim_check(
                 ${this.schemaName}.lock.app,
-                ${literal(this.options.pgClient.appName)}
-            )
-        `);
+                $3,
+                ${this.schemaName}.lock.acked,
+                ${this.schemaName}.lock.created_at,
+                $4
+            ), created_at = NOW(), token = NEXTVAL($5::REGCLASS)
+            RETURNING token
+        `,
+            [
+                this.uniqueKey,
+                this.channel,
+                this.options.pgClient.appName,
+                this.ackTimeout / 1000,
+                this.tokenSequence,
+            ],
+        );
     }
 
     /**
-     * Acquires a lock by unique channel
+     * Acknowledges the message this unique lock is held for as processed,
+     * so its marker is never re-claimed until expired by TTL. Does nothing
+     * for channel locks or if the lock is not acquired.
      *
      * @return {Promise<void>}
      */
-    private async acquireChannelLock(): Promise<void> {
+    public async ack(): Promise<void> {
+        if (!this.uniqueKey || !this.acquired) {
+            return;
+        }
+
         // noinspection SqlResolve
-        await this.options.pgClient.query(`
-            INSERT INTO ${this.schemaName}.lock (channel, app)
-            VALUES (
-                ${literal(this.channel)},
-                ${literal(this.options.pgClient.appName)}
-            ) ON CONFLICT (channel) DO
+        await this.options.pgClient.query(
+            `
+            UPDATE ${this.schemaName}.lock SET acked = TRUE
+            WHERE id = $1 AND app = $2
+        `,
+            [this.uniqueKey, this.options.pgClient.appName],
+        );
+
+        this.processed = true;
+    }
+
+    /**
+     * Returns true if the message this unique lock is held for is known to
+     * be acknowledged as processed, false - otherwise.
+     *
+     * @return {boolean}
+     */
+    public isProcessed(): boolean {
+        return this.processed;
+    }
+
+    /**
+     * Visibility timeout of claimed, but not acknowledged messages
+     *
+     * @return {number}
+     */
+    private get ackTimeout(): number {
+        return this.options.ackTimeout ?? ACK_TIMEOUT;
+    }
+
+    /**
+     * Fencing tokens sequence name
+     *
+     * @return {string}
+     */
+    private get tokenSequence(): string {
+        return `${this.schemaName}.lock_token`;
+    }
+
+    /**
+     * Acquires a lock by unique channel, resolving with the row of its
+     * fencing token. Re-acquiring the lock held by the same app keeps its
+     * token, so the tokens already handed out stay valid.
+     *
+     * @return {Promise<QueryResult>}
+     */
+    private async acquireChannelLock(): Promise<QueryResult> {
+        // noinspection SqlResolve
+        return this.options.pgClient.query(
+            `
+            INSERT INTO ${this.schemaName}.lock (channel, app, token)
+            VALUES ($1, $2, NEXTVAL($3::REGCLASS)) ON CONFLICT (channel) DO
                 UPDATE SET app = ${this.schemaName}.deadlock_check(
                 ${this.schemaName}.lock.app,
-                ${literal(this.options.pgClient.appName)}
-            )
-        `);
+                $2
+            ), token = CASE
+                WHEN ${this.schemaName}.lock.app = $2
+                    AND ${this.schemaName}.lock.token IS NOT NULL
+                THEN ${this.schemaName}.lock.token
+                ELSE NEXTVAL($3::REGCLASS)
+            END
+            RETURNING token
+        `,
+            [this.channel, this.options.pgClient.appName, this.tokenSequence],
+        );
     }
 
     /**
@@ -337,19 +436,20 @@ export class PgIpLock implements AnyLock {
 
         if (this.uniqueKey) {
             // noinspection SqlResolve
-            await this.options.pgClient.query(`
-                DELETE FROM ${this.schemaName}.lock
-                WHERE id=${literal(this.uniqueKey)}
-            `);
+            await this.options.pgClient.query(
+                `DELETE FROM ${this.schemaName}.lock WHERE id = $1`,
+                [this.uniqueKey],
+            );
         } else {
             // noinspection SqlResolve
-            await this.options.pgClient.query(`
-                DELETE FROM ${this.schemaName}.lock
-                WHERE channel=${literal(this.channel)}
-            `);
+            await this.options.pgClient.query(
+                `DELETE FROM ${this.schemaName}.lock WHERE channel = $1`,
+                [this.channel],
+            );
         }
 
         this.acquired = false;
+        this.token = undefined;
     }
 
     /**
@@ -409,6 +509,7 @@ export class PgIpLock implements AnyLock {
         }
 
         this.acquired = false;
+        this.token = undefined;
     }
 
     /**
@@ -438,6 +539,9 @@ export class PgIpLock implements AnyLock {
         await this.options.pgClient.query(`
             CREATE SCHEMA IF NOT EXISTS ${this.schemaName}
         `);
+        await this.options.pgClient.query(`
+            CREATE SEQUENCE IF NOT EXISTS ${this.tokenSequence}
+        `);
     }
 
     /**
@@ -466,19 +570,53 @@ export class PgIpLock implements AnyLock {
         // concurrent bootstrap could wipe a freshly inserted lock row and
         // lose a message). The unique schema is dedicated (schemaName has
         // the _unique suffix), so migrating from an older shape only means
-        // adding the created_at column when it is missing.
+        // adding the created_at, acked and token columns when they are
+        // missing.
         await this.options.pgClient.query(`
             CREATE TABLE IF NOT EXISTS ${this.schemaName}."lock" (
                 "id" CHARACTER VARYING NOT NULL PRIMARY KEY,
                 "channel" CHARACTER VARYING NOT NULL,
                 "app" CHARACTER VARYING NOT NULL,
-                "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+                "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+                "acked" BOOLEAN NOT NULL DEFAULT FALSE,
+                "token" BIGINT
             )
         `);
         await this.options.pgClient.query(`
             ALTER TABLE ${this.schemaName}."lock"
                 ADD COLUMN IF NOT EXISTS "created_at"
-                    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+                    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+                ADD COLUMN IF NOT EXISTS "acked"
+                    BOOLEAN NOT NULL DEFAULT FALSE,
+                ADD COLUMN IF NOT EXISTS "token" BIGINT
+        `);
+        await this.options.pgClient.query(`
+            CREATE OR REPLACE FUNCTION ${this.schemaName}.claim_check(
+                old_app TEXT,
+                new_app TEXT,
+                acked BOOLEAN,
+                claimed_at TIMESTAMPTZ,
+                timeout DOUBLE PRECISION
+            )
+            RETURNS TEXT LANGUAGE PLPGSQL AS $$
+            DECLARE num_apps INTEGER;
+            BEGIN
+                IF acked THEN
+                    RAISE EXCEPTION 'Message processed by app %', old_app
+                    USING DETAIL = 'PROCESSED';
+                END IF;
+                SELECT count(query) INTO num_apps
+                FROM pg_stat_activity
+                WHERE application_name = old_app;
+                IF num_apps > 0 AND
+                    claimed_at > NOW() - MAKE_INTERVAL(secs => timeout)
+                THEN
+                    RAISE EXCEPTION 'Duplicate message for app %', new_app
+                    USING DETAIL = 'LOCKED';
+                END IF;
+                RETURN new_app;
+            END;
+            $$
         `);
         await this.options.pgClient.query(`
             DROP TRIGGER IF EXISTS notify_release_lock_trigger
@@ -494,13 +632,19 @@ export class PgIpLock implements AnyLock {
     private async createChannelLock(): Promise<void> {
         // the channel schema is dedicated (no _unique suffix) and only ever
         // holds a channel-keyed table, so no destructive migration is
-        // needed - a plain idempotent create is safe under concurrency
+        // needed - a plain idempotent create is safe under concurrency,
+        // and tables of older versions only miss the token column
         await this.options.pgClient.query(`
             CREATE TABLE IF NOT EXISTS ${this.schemaName}."lock" (
                 "channel" CHARACTER VARYING NOT NULL PRIMARY KEY,
-                "app" CHARACTER VARYING NOT NULL
+                "app" CHARACTER VARYING NOT NULL,
+                "token" BIGINT
             )
         `);
+        await this.options.pgClient.query(`
+            ALTER TABLE ${this.schemaName}."lock"
+                ADD COLUMN IF NOT EXISTS "token" BIGINT
+        `);
         // noinspection SqlResolve
         await this.options.pgClient.query(`
             CREATE OR REPLACE FUNCTION ${this.schemaName}.notify_lock()
@@ -544,7 +688,8 @@ export class PgIpLock implements AnyLock {
                 SELECT count(query) INTO num_apps
                 FROM pg_stat_activity
                 WHERE application_name = old_app;
-                IF num_apps > 0 THEN
+                -- the holder re-acquiring its own lock keeps it
+                IF num_apps > 0 AND old_app <> new_app THEN
                     RAISE EXCEPTION 'Duplicate channel for app %', new_app
                     USING DETAIL = 'LOCKED';
                 END IF;
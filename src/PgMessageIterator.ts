@@ -0,0 +1,223 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { ITERATOR_HIGH_WATER_MARK } from './constants.js';
+import {
+    type AnyJson,
+    type PgIterateOptions,
+    type PgMessage,
+    type PgMessageContext,
+} from './types/index.js';
+import { type PgPubSub } from './PgPubSub.js';
+
+/**
+ * Implements async iteration over messages of a particular channel,
+ * returned by `PgPubSub.iterate()`. The channel is listened on the first
+ * pull, and unlistened once the iteration stops, unless it was listened
+ * before or there are other listeners of the channel left. Concurrent
+ * pulls are resolved in order. Messages received while the consumer is
+ * busy are buffered up to the high-water mark. The iteration ends once the
+ * given signal aborts, or the pub/sub instance is closed or destroyed.
+ */
+export class PgMessageIterator implements AsyncIterableIterator<PgMessage> {
+    private buffer: PgMessage[] = [];
+    private pending: Array<(result: IteratorResult<PgMessage>) => void> = [];
+    private starting?: Promise<void>;
+    private started = false;
+    private listened = false;
+    private done = false;
+
+    /**
+     * @constructor
+     * @param {PgPubSub} pubSub - pub/sub instance to iterate messages of
+     * @param {string} channel - channel to iterate messages of
+     * @param {PgIterateOptions} [options] - iteration options
+     */
+    public constructor(
+        public readonly pubSub: PgPubSub,
+        public readonly channel: string,
+        private readonly options: PgIterateOptions = {},
+    ) {
+        this.onMessage = this.onMessage.bind(this);
+        this.onClose = this.onClose.bind(this);
+        this.onAbort = this.onAbort.bind(this);
+    }
+
+    /**
+     * @return {PgMessageIterator}
+     */
+    public [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    /**
+     * Resolves the next received message, starting listening the channel
+     * on the first call
+     *
+     * @return {Promise<IteratorResult<PgMessage>>}
+     */
+    public async next(): Promise<IteratorResult<PgMessage>> {
+        await (this.starting ??= this.start());
+
+        if (this.buffer.length) {
+            return { value: this.buffer.shift() as PgMessage, done: false };
+        }
+
+        if (this.done) {
+            return { value: undefined, done: true };
+        }
+
+        return new Promise(resolve => this.pending.push(resolve));
+    }
+
+    /**
+     * Stops the iteration, dropping buffered messages and unlistening the
+     * channel. Called implicitly whenever `for await` loop exits.
+     *
+     * @return {Promise<IteratorResult<PgMessage>>}
+     */
+    public async return(): Promise<IteratorResult<PgMessage>> {
+        await this.stop();
+
+        return { value: undefined, done: true };
+    }
+
+    /**
+     * Starts listening the channel, unless the signal is already aborted.
+     * Remembers whether the channel was listened by the iterator itself,
+     * so it is not unlistened under the caller's own listen.
+     *
+     * @access private
+     * @return {Promise<void>}
+     */
+    private async start(): Promise<void> {
+        this.started = true;
+
+        if (this.options.signal?.aborted) {
+            this.done = true;
+
+            return;
+        }
+
+        this.options.signal?.addEventListener('abort', this.onAbort);
+        this.pubSub.on('close', this.onClose);
+        this.pubSub.channels.on(this.channel, this.onMessage);
+        this.listened = !this.pubSub.allChannels().includes(this.channel);
+
+        try {
+            await this.pubSub.listen(this.channel);
+        } catch (err) {
+            this.finish();
+
+            throw err;
+        }
+    }
+
+    /**
+     * Ends the iteration, dropping buffered messages and unlistening the
+     * channel if the iterator listened it and nobody else listens it now
+     *
+     * @access private
+     * @return {Promise<void>}
+     */
+    private async stop(): Promise<void> {
+        const listening = this.started && !this.done && this.listened;
+
+        this.buffer = [];
+        this.finish();
+
+        if (listening && !this.pubSub.channels.listenerCount(this.channel)) {
+            await this.pubSub.unlisten(this.channel);
+        }
+    }
+
+    /**
+     * Detaches all the handlers and ends the iteration, resolving pending
+     * pulls if any
+     *
+     * @access private
+     * @return {void}
+     */
+    private finish(): void {
+        this.done = true;
+        this.options.signal?.removeEventListener('abort', this.onAbort);
+        this.pubSub.off('close', this.onClose);
+        this.pubSub.channels.off(this.channel, this.onMessage);
+
+        for (const resolve of this.pending.splice(0)) {
+            resolve({ value: undefined, done: true });
+        }
+    }
+
+    /**
+     * Channel message handler: passes the message to the earliest pending
+     * pull, or buffers it
+     *
+     * @access private
+     * @param {AnyJson} payload - message payload
+     * @param {PgMessageContext} context - message handling context
+     * @return {void}
+     */
+    private onMessage(payload: AnyJson, { meta }: PgMessageContext): void {
+        const message = { channel: this.channel, payload, meta };
+
+        const resolve = this.pending.shift();
+
+        if (resolve) {
+            resolve({ value: message, done: false });
+
+            return;
+        }
+
+        this.buffer.push(message);
+
+        const limit = this.options.highWaterMark ?? ITERATOR_HIGH_WATER_MARK;
+
+        if (this.buffer.length > limit) {
+            this.buffer.shift();
+            this.pubSub.logger.warn(
+                `Message iterator of channel '${this.channel}' exceeded ` +
+                    `high-water mark of ${limit}, the oldest message dropped`,
+            );
+        }
+    }
+
+    /**
+     * Pub/sub close handler: ends the iteration once buffered messages are
+     * consumed, the connection is gone, so there is nothing to unlisten
+     *
+     * @access private
+     * @return {void}
+     */
+    private onClose(): void {
+        this.finish();
+    }
+
+    /**
+     * Signal abort handler
+     *
+     * @access private
+     * @return {void}
+     */
+    private onAbort(): void {
+        this.stop().catch(err => this.pubSub.logger.error(err));
+    }
+}
@@ -0,0 +1,173 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { ident } from 'pg-format';
+import { randomUUID as uuid } from 'node:crypto';
+import { PAYLOAD_CLEANUP_INTERVAL, SCHEMA_NAME } from './constants.js';
+import { bootstrapOnce } from './helpers.js';
+import { type PgPayloadStoreOptions } from './types/PgPayloadStoreOptions.js';
+import { type PgQueryable } from './types/PgQueryable.js';
+
+/**
+ * Implements storage of large message bodies in a database table, so
+ * that only a reference to the stored body is sent over `NOTIFY`, which
+ * is not limited by postgres payload size limit.
+ *
+ * Bodies are kept in the `payload` table of the lock schema and expire by
+ * TTL: expired rows are cleaned up on subsequent stores, at most once per
+ * cleanup interval.
+ *
+ * Usually you do not need to instantiate this class directly - it will be
+ * done by a PgPubSub instances on their needs.
+ */
+export class PgPayloadStore {
+    /**
+     * DB payload schema name getter
+     *
+     * @return {string}
+     */
+    public get schemaName(): string {
+        return ident(SCHEMA_NAME);
+    }
+
+    private cleanedAt = 0;
+
+    /**
+     * @constructor
+     * @param {PgPayloadStoreOptions} options - store instantiate options
+     */
+    public constructor(public readonly options: PgPayloadStoreOptions) {}
+
+    /**
+     * Stores given packed message body for a given channel and returns
+     * an identifier it can be fetched by
+     *
+     * @param {string} channel - channel message is published to
+     * @param {string} packed - serialized message body
+     * @param {PgQueryable} [client] - client to write with, e.g. running
+     * caller's transaction; table bootstrap is still done by own client
+     * @return {Promise<string>}
+     */
+    public async store(
+        channel: string,
+        packed: string,
+        client: PgQueryable = this.options.pgClient,
+    ): Promise<string> {
+        const id = uuid();
+        const now = Date.now();
+        const values: unknown[] = [id, channel, packed];
+        let expired = '';
+
+        await this.ensureTable();
+
+        // expired bodies cleanup rides along in the same round-trip, but
+        // not more often than once per cleanup interval, as it scans the
+        // table
+        if (now - this.cleanedAt >= PAYLOAD_CLEANUP_INTERVAL) {
+            this.cleanedAt = now;
+            values.push(this.options.ttl);
+            expired = `
+                WITH expired AS (
+                    DELETE FROM ${this.schemaName}.payload
+                    WHERE created_at < NOW() - MAKE_INTERVAL(secs => $4)
+                )
+            `;
+        }
+
+        // noinspection SqlResolve
+        await client.query(
+            `
+            ${expired}
+            INSERT INTO ${this.schemaName}.payload (id, channel, body)
+            VALUES ($1, $2, $3)
+        `,
+            values,
+        );
+
+        return id;
+    }
+
+    /**
+     * Fetches stored message body by a given identifier. Returns undefined
+     * if there is no such body (e.g. it has already expired).
+     *
+     * @param {string} id - stored body identifier
+     * @return {Promise<string | undefined>}
+     */
+    public async fetch(id: string): Promise<string | undefined> {
+        await this.ensureTable();
+
+        // noinspection SqlResolve
+        const { rows } = await this.options.pgClient.query(
+            `SELECT body FROM ${this.schemaName}.payload WHERE id = $1`,
+            [id],
+        );
+
+        return rows?.[0]?.body;
+    }
+
+    /**
+     * Ensures the payload table exists, bootstrapping it at most once per
+     * connection. A failed bootstrap is not memoized, so a later call may
+     * retry it.
+     *
+     * @return {Promise<void>}
+     */
+    private ensureTable(): Promise<void> {
+        return bootstrapOnce(this.options.pgClient, 'payload', () =>
+            this.createTable(),
+        );
+    }
+
+    /**
+     * Creates payload schema, table and its expiry index. Logs and rethrows on failure (e.g.
+     * missing ddl privileges) so it is visible.
+     *
+     * @return {Promise<void>}
+     */
+    private async createTable(): Promise<void> {
+        try {
+            await this.options.pgClient.query(`
+                CREATE SCHEMA IF NOT EXISTS ${this.schemaName}
+            `);
+            await this.options.pgClient.query(`
+                CREATE TABLE IF NOT EXISTS ${this.schemaName}."payload" (
+                    "id" CHARACTER VARYING NOT NULL PRIMARY KEY,
+                    "channel" CHARACTER VARYING NOT NULL,
+                    "body" TEXT NOT NULL,
+                    "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+                )
+            `);
+            await this.options.pgClient.query(`
+                CREATE INDEX IF NOT EXISTS "payload_created_at_idx"
+                    ON ${this.schemaName}."payload" ("created_at")
+            `);
+        } catch (err) {
+            this.options.logger.error(
+                'PgPayloadStore: payload table initialization failed, ' +
+                    'large payloads will not be delivered!',
+                err,
+            );
+
+            throw err;
+        }
+    }
+}
@@ -20,34 +20,94 @@
  * <support@imqueue.com> to get commercial licensing options.
  */
 import { EventEmitter } from 'node:events';
-import { Client, type Notification } from 'pg';
-import { ident, literal } from 'pg-format';
+import { Client, type ClientConfig, type Notification } from 'pg';
+import { ident } from 'pg-format';
 import { randomUUID as uuid } from 'node:crypto';
 import {
     type AnyJson,
     type AnyLock,
     type AnyLogger,
+    backoffStrategy,
     type close,
     type connect,
-    DefaultOptions,
+    ELECTION_CHANNEL_PREFIX,
     type end,
     type error,
+    FRAGMENT_KEY,
+    GATHER_CHANNEL,
+    GATHER_TIMEOUT,
+    type failover,
+    type gap,
+    type fragmentTimeout,
+    type handlerError,
+    type invalid,
+    isFragment,
+    isLogEntry,
+    isPointer,
+    type JsonMap,
     type listen,
+    LOG_KEY,
+    matchTopic,
     type message,
     NoLock,
     type notify,
     pack,
+    PAYLOAD_KEY,
     enableGracefulShutdown,
+    type PgChannelOptions,
+    type PgBackoff,
     type PgClient,
+    type PgDeadLetter,
+    type PgElectOptions,
+    type PgIterateOptions,
+    type PgFragment,
+    type PgGatherOptions,
+    type PgMessageContext,
+    type PgMessageHandler,
+    type PgMessageMeta,
+    type PgNotifyOptions,
+    type PgOutgoingMessage,
+    type PgQueryable,
+    type PgRequestHandler,
+    type PgRequestOptions,
+    type PgSubscribeOptions,
+    PgTimeoutError,
+    PgAdvisoryLock,
     PgIpLock,
     type PgPubSubOptions,
+    type PgReply,
     type reconnect,
+    type reconnecting,
+    REPLY_CHANNEL_PREFIX,
+    REPLY_KEY,
+    REQUEST_KEY,
+    REQUEST_TIMEOUT,
+    RX_ADVISORY_LOCK_CHANNEL,
     RX_LOCK_CHANNEL,
     signature,
+    shardOf,
+    splitHosts,
+    type stale,
     type unlisten,
+    TOPIC_KEY,
     unpack,
 } from './index.js';
 import { PgChannelEmitter } from './PgChannelEmitter.js';
+import { PgFragmentAssembler } from './PgFragmentAssembler.js';
+import { PgPayloadStore } from './PgPayloadStore.js';
+import { PgChannelLog } from './PgChannelLog.js';
+import { PgDeadLetterStore } from './PgDeadLetterStore.js';
+import { PgChannel } from './PgChannel.js';
+import { PgMessageIterator } from './PgMessageIterator.js';
+import { PgElection } from './PgElection.js';
+import { PgPublisher } from './PgPublisher.js';
+
+interface PendingRequest {
+    // accepts given reply, returns true once request is complete
+    accept: (reply: JsonMap) => boolean;
+    reject: (err: Error) => void;
+    timer: NodeJS.Timeout;
+}
 
 // PgPubSub Events
 // oxlint-disable-next-line no-unsafe-declaration-merging
@@ -115,6 +175,42 @@ export declare interface PgPubSub {
      */
     on(event: 'reconnect', listener: typeof reconnect): this;
 
+    /**
+     * Sets `'reconnecting'` event handler
+     *
+     * @param {'reconnecting'} event
+     * @param {typeof reconnecting} listener
+     * @return {PgPubSub}
+     */
+    on(event: 'reconnecting', listener: typeof reconnecting): this;
+
+    /**
+     * Sets `'gap'` event handler
+     *
+     * @param {'gap'} event
+     * @param {typeof gap} listener
+     * @return {PgPubSub}
+     */
+    on(event: 'gap', listener: typeof gap): this;
+
+    /**
+     * Sets `'stale'` event handler
+     *
+     * @param {'stale'} event
+     * @param {typeof stale} listener
+     * @return {PgPubSub}
+     */
+    on(event: 'stale', listener: typeof stale): this;
+
+    /**
+     * Sets `'failover'` event handler
+     *
+     * @param {'failover'} event
+     * @param {typeof failover} listener
+     * @return {PgPubSub}
+     */
+    on(event: 'failover', listener: typeof failover): this;
+
     /**
      * Sets `'message'` event handler
      *
@@ -133,6 +229,33 @@ export declare interface PgPubSub {
      */
     on(event: 'notify', listener: typeof notify): this;
 
+    /**
+     * Sets `'fragmentTimeout'` event handler
+     *
+     * @param {'fragmentTimeout'} event
+     * @param {typeof fragmentTimeout} listener
+     * @return {PgPubSub}
+     */
+    on(event: 'fragmentTimeout', listener: typeof fragmentTimeout): this;
+
+    /**
+     * Sets `'handlerError'` event handler
+     *
+     * @param {'handlerError'} event
+     * @param {typeof handlerError} listener
+     * @return {PgPubSub}
+     */
+    on(event: 'handlerError', listener: typeof handlerError): this;
+
+    /**
+     * Sets `'invalid'` event handler
+     *
+     * @param {'invalid'} event
+     * @param {typeof invalid} listener
+     * @return {PgPubSub}
+     */
+    on(event: 'invalid', listener: typeof invalid): this;
+
     /**
      * Sets any unknown or user-defined event handler
      *
@@ -204,6 +327,42 @@ export declare interface PgPubSub {
      */
     once(event: 'reconnect', listener: typeof reconnect): this;
 
+    /**
+     * Sets `'reconnecting'` event handler, which fired only one single time
+     *
+     * @param {'reconnecting'} event
+     * @param {typeof reconnecting} listener
+     * @return {PgPubSub}
+     */
+    once(event: 'reconnecting', listener: typeof reconnecting): this;
+
+    /**
+     * Sets `'gap'` event handler, which fired only one single time
+     *
+     * @param {'gap'} event
+     * @param {typeof gap} listener
+     * @return {PgPubSub}
+     */
+    once(event: 'gap', listener: typeof gap): this;
+
+    /**
+     * Sets `'stale'` event handler, which fired only one single time
+     *
+     * @param {'stale'} event
+     * @param {typeof stale} listener
+     * @return {PgPubSub}
+     */
+    once(event: 'stale', listener: typeof stale): this;
+
+    /**
+     * Sets `'failover'` event handler, which fired only one single time
+     *
+     * @param {'failover'} event
+     * @param {typeof failover} listener
+     * @return {PgPubSub}
+     */
+    once(event: 'failover', listener: typeof failover): this;
+
     /**
      * Sets `'message'` event handler, which fired only one single time
      *
@@ -222,6 +381,33 @@ export declare interface PgPubSub {
      */
     once(event: 'notify', listener: typeof notify): this;
 
+    /**
+     * Sets `'fragmentTimeout'` event handler, which fired only one single time
+     *
+     * @param {'fragmentTimeout'} event
+     * @param {typeof fragmentTimeout} listener
+     * @return {PgPubSub}
+     */
+    once(event: 'fragmentTimeout', listener: typeof fragmentTimeout): this;
+
+    /**
+     * Sets `'handlerError'` event handler, which fired only one single time
+     *
+     * @param {'handlerError'} event
+     * @param {typeof handlerError} listener
+     * @return {PgPubSub}
+     */
+    once(event: 'handlerError', listener: typeof handlerError): this;
+
+    /**
+     * Sets `'invalid'` event handler, which fired only one single time
+     *
+     * @param {'invalid'} event
+     * @param {typeof invalid} listener
+     * @return {PgPubSub}
+     */
+    once(event: 'invalid', listener: typeof invalid): this;
+
     /**
      * Sets any unknown or user-defined event handler, which would fire only
      * one single time
@@ -297,23 +483,54 @@ export declare interface PgPubSub {
  * handling, so while you close, another running copy may handle next
  * messages...
  */
-/**
- * Maximum byte length of a NOTIFY payload postgres accepts (with default
- * server configuration)
- */
-const MAX_PAYLOAD_LENGTH = 8000;
-
-export class PgPubSub extends EventEmitter {
-    public readonly options: PgPubSubOptions;
+export class PgPubSub extends PgPublisher {
+    declare public readonly options: PgPubSubOptions;
     public readonly channels: PgChannelEmitter = new PgChannelEmitter();
 
     private client: PgClient;
     private locks: { [channel: string]: AnyLock } = {};
+    private lockCreations = new Map<string, Promise<AnyLock>>();
+    private elections = new Set<PgElection>();
+    private topics = new Set<string>();
+    private validators = new Map<string, (payload: AnyJson) => boolean>();
     private reListenChannels?: string[];
     private reconnectTimer?: NodeJS.Timeout;
+    private readonly backoff: PgBackoff;
+    private shardBackoffs: PgBackoff[] = [];
+    private heartbeatTimer?: NodeJS.Timeout;
+    private disconnectedAt?: Date;
+    private readonly hosts: ClientConfig[];
+    private hostIndex = 0;
+    private activeHost?: string;
+    private shardClients: PgClient[] = [];
+    private shardsConnection?: Promise<void>;
+    private shardRetries: number[] = [];
+    private shardDisconnectedAt: (Date | undefined)[] = [];
+    private shardTimers = new Set<NodeJS.Timeout>();
+    private listening = new Set<string>();
     private destroyed = false;
     private retry = 0;
     private processId?: number;
+    private readonly fragments: PgFragmentAssembler;
+    private store?: PgPayloadStore;
+    private log?: PgChannelLog;
+    private deadLetterStore?: PgDeadLetterStore;
+    private readonly subscriberId: string;
+    private redeliveries = new Set<NodeJS.Timeout>();
+    private readonly replyChannel: string;
+    private requests = new Map<string, PendingRequest>();
+    private replyListening?: Promise<void>;
+    private topicListening?: Promise<void>;
+    private cursors: { [channel: string]: number } = {};
+    private delivered: { [channel: string]: Set<number> } = {};
+    private settleTimers: { [channel: string]: NodeJS.Timeout } = {};
+    private replaying: {
+        [channel: string]: Array<{
+            seq: number;
+            payload?: AnyJson;
+            meta: PgMessageMeta;
+        }>;
+    } = {};
 
     /**
      * Underlying postgres client. The instance may be replaced during
@@ -333,22 +550,44 @@ export class PgPubSub extends EventEmitter {
      */
     public constructor(
         options: Partial<PgPubSubOptions>,
-        public readonly logger: AnyLogger = console,
+        logger: AnyLogger = console,
     ) {
-        super();
+        super(options, logger);
+
+        if (
+            this.options.lockStrategy === 'advisory' &&
+            this.options.executionLock
+        ) {
+            throw new TypeError(
+                'Advisory locks can not be used in execution lock mode, ' +
+                    'as they do not keep processed-message markers',
+            );
+        }
 
-        this.options = { ...DefaultOptions, ...options };
+        this.subscriberId = this.options.subscriberId || uuid();
+        this.replyChannel = REPLY_CHANNEL_PREFIX + uuid();
 
         this.onNotification = this.options.executionLock
             ? this.onNotificationLockExec.bind(this)
             : this.onNotification.bind(this);
         this.reconnect = this.reconnect.bind(this);
+        this.backoff = this.createBackoff();
         this.onReconnect = this.onReconnect.bind(this);
+        this.fragments = new PgFragmentAssembler(
+            this.options.fragmentTimeout,
+            (channel, id, received, total) =>
+                this.onFragmentTimeout(channel, id, received, total),
+        );
 
+        this.hosts = this.hostConfigs();
         this.client = (this.options.pgClient ||
-            new Client(this.options)) as PgClient;
+            new Client(this.hosts[0] ?? this.options)) as PgClient;
         this.attachClientHandlers();
 
+        for (let shard = 1; shard < this.options.shards; shard++) {
+            this.createShardClient(shard);
+        }
+
         if (this.options.handleSignals) {
             enableGracefulShutdown();
         }
@@ -383,6 +622,76 @@ export class PgPubSub extends EventEmitter {
         }
     }
 
+    /**
+     * Emits 'fragmentTimeout' if anyone listens, otherwise logs it as a
+     * warning, so dropped chunked messages never pass silently
+     *
+     * @access private
+     * @param {string} channel - channel message was sent to
+     * @param {string} id - dropped message identifier
+     * @param {number} received - number of fragments received
+     * @param {number} total - number of fragments message consists of
+     * @return {void}
+     */
+    private onFragmentTimeout(
+        channel: string,
+        id: string,
+        received: number,
+        total: number,
+    ): void {
+        if (this.listenerCount('fragmentTimeout') > 0) {
+            this.emit('fragmentTimeout', channel, id, received, total);
+        } else {
+            this.logger.warn(
+                `Chunked message ${id} on channel '${channel}' dropped: ` +
+                    `received ${received} of ${total} fragments in time`,
+            );
+        }
+    }
+
+    /**
+     * Emits 'handlerError' if anyone listens, otherwise propagates given
+     * error as usual, so handler failures never pass silently
+     *
+     * @access private
+     * @param {Error} err - handler error
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @return {void}
+     */
+    private onHandlerError(
+        err: Error,
+        channel: string,
+        payload: AnyJson,
+    ): void {
+        if (this.listenerCount('handlerError') > 0) {
+            this.emit('handlerError', err, channel, payload);
+        } else {
+            this.emitError(err);
+        }
+    }
+
+    /**
+     * Emits 'invalid' if anyone listens, otherwise logs it as a warning, so
+     * dropped invalid messages never pass silently
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - invalid message payload
+     * @param {Error} [err] - validator error
+     * @return {void}
+     */
+    private onInvalid(channel: string, payload: AnyJson, err?: Error): void {
+        if (this.listenerCount('invalid') > 0) {
+            this.emit('invalid', channel, payload, err);
+        } else {
+            this.logger.warn(
+                `Invalid message on channel '${channel}' dropped`,
+                ...(err ? [err] : []),
+            );
+        }
+    }
+
     /**
      * Establishes re-connectable database connection
      *
@@ -393,6 +702,22 @@ export class PgPubSub extends EventEmitter {
             const onConnect = async () => {
                 await this.setAppName();
                 await this.setProcessId();
+
+                if (this.hosts.length && (await this.isInRecovery())) {
+                    const err = new Error(
+                        `Host ${this.hostName()} is in recovery, ` +
+                            'failing over to the next one...',
+                    );
+
+                    cleanup();
+                    reject(err);
+
+                    return this.abandonClient(this.pgClient, err);
+                }
+
+                this.trackHost();
+                await this.connectShards();
+                this.startHeartbeat();
                 this.emit('connect');
                 resolve();
                 cleanup();
@@ -423,6 +748,8 @@ export class PgPubSub extends EventEmitter {
      * @return {Promise<void>}
      */
     public async close(): Promise<void> {
+        this.stopHeartbeat();
+
         if (this.reconnectTimer) {
             // a pending reconnect would re-create the client and
             // re-subscribe channels after this instance is closed
@@ -430,6 +757,8 @@ export class PgPubSub extends EventEmitter {
             this.reconnectTimer = undefined;
         }
 
+        this.disconnectedAt = undefined;
+        await this.closeShards();
         this.pgClient.off('end', this.reconnect);
         this.pgClient.off('error', this.reconnect);
         await this.pgClient.end();
@@ -440,15 +769,18 @@ export class PgPubSub extends EventEmitter {
     /**
      * Starts listening given channel. If singleListener option is set to
      * true, it guarantees that only one process would be able to listen
-     * this channel at a time.
+     * this channel at a time. If durable option is set to true, messages
+     * missed since this subscriber has seen the channel last time are
+     * replayed before live delivery resumes.
      *
      * @param {string} channel - channel name to listen
      * @return {Promise<void>}
      */
     public async listen(channel: string): Promise<void> {
         if (this.options.executionLock) {
-            await this.pgClient.query(`LISTEN ${ident(channel)}`);
+            await this.listenOn(channel);
             this.emit('listen', channel);
+            await this.replay(channel);
             return;
         }
 
@@ -456,345 +788,2331 @@ export class PgPubSub extends EventEmitter {
         const acquired = await lock.acquire();
         //  ignore else
         if (acquired) {
-            await this.pgClient.query(`LISTEN ${ident(channel)}`);
+            await this.listenOn(channel);
             this.emit('listen', channel);
+            await this.replay(channel);
         }
     }
 
     /**
-     * Stops listening of the given channel, and, if singleListener option is
-     * set to true - will release an acquired lock (if it was settled).
+     * Defines a channel with a given name, returning its typed handle.
+     * If validator is given, payloads published to the channel are
+     * validated before sending, and received payloads - before reaching
+     * any listeners. Defining the same channel again with a validator
+     * replaces it, without one - keeps the existing validator.
      *
-     * @param {string} channel - channel name to unlisten
-     * @return {Promise<void>}
+     * @param {string} name - channel name
+     * @param {PgChannelOptions<T>} [options] - channel options
+     * @return {PgChannel<T>}
      */
-    public async unlisten(channel: string): Promise<void> {
-        await this.pgClient.query(`UNLISTEN ${ident(channel)}`);
+    public channel<T = AnyJson>(
+        name: string,
+        options: PgChannelOptions<T> = {},
+    ): PgChannel<T> {
+        if (options.validate) {
+            this.validators.set(name, options.validate);
+        }
 
-        if (this.locks[channel]) {
-            await this.locks[channel].destroy();
-            delete this.locks[channel];
+        return new PgChannel<T>(this, name);
+    }
+
+    /**
+     * Subscribes given handler to a given channel and starts listening
+     * it. Unlike plain channel listeners, handler results are awaited and
+     * its failures, including timeouts, are isolated from other listeners
+     * and reported with `'handlerError'` event. Resolves a function, which
+     * unsubscribes the handler (the channel is still listened).
+     *
+     * @param {string} channel - channel name to subscribe to
+     * @param {PgMessageHandler} handler - message handler
+     * @param {PgSubscribeOptions} [options] - subscription options
+     * @return {Promise<() => void>}
+     */
+    public async subscribe(
+        channel: string,
+        handler: PgMessageHandler,
+        options: PgSubscribeOptions = {},
+    ): Promise<() => void> {
+        const listener = (payload: AnyJson, context: PgMessageContext) =>
+            this.runHandler(channel, payload, context, handler, options);
+        const unsubscribe = () => void this.channels.off(channel, listener);
+
+        this.channels.on(channel, listener);
+
+        try {
+            await this.listen(channel);
+        } catch (err) {
+            unsubscribe();
+
+            throw err;
         }
 
-        this.emit('unlisten', [channel]);
+        return unsubscribe;
     }
 
     /**
-     * Stops listening all connected channels, and, if singleListener option
-     * is set to true - will release all acquired locks (if any was settled).
+     * Starts listening topic messages matching given pattern. Pattern is a
+     * dot-separated topic routing key, where `*` word matches exactly one
+     * word and `#` word matches zero or more words, e.g. `'orders.*.created'`
+     * or `'orders.#'`. Matching messages are emitted to channel listeners
+     * of the pattern itself, while `'message'` event gets topic routing key
+     * as a channel name. Topic channel is never locked, so every instance
+     * receives messages matching its own patterns, regardless of
+     * `singleListener` option.
      *
+     * @example
+     * ```typescript
+     * pubSub.channels.on('orders.#', payload => console.log(payload));
+     * await pubSub.listenTopic('orders.#');
+     * await pubSub.publish('orders.eu.created', { id: 1 });
+     * ```
+     *
+     * @param {string} pattern - topic pattern to listen
      * @return {Promise<void>}
      */
-    public async unlistenAll(): Promise<void> {
-        await this.pgClient.query('UNLISTEN *');
-        await this.release();
+    public async listenTopic(pattern: string): Promise<void> {
+        this.topics.add(pattern);
+        this.topicListening ??= this.listen(this.options.topicChannel).catch(
+            err => {
+                this.topicListening = undefined;
 
-        this.emit('unlisten', Object.keys(this.locks));
+                throw err;
+            },
+        );
+
+        try {
+            await this.topicListening;
+        } catch (err) {
+            this.topics.delete(pattern);
+
+            throw err;
+        }
     }
 
     /**
-     * Performs NOTIFY to a given channel with a given payload to all
-     * listening subscribers
+     * Stops listening topic messages matching given pattern. Topic channel
+     * itself is unlistened once no patterns left.
      *
-     * @param {string} channel - channel to publish to
-     * @param {AnyJson} payload - payload to publish for subscribers
+     * @param {string} pattern - topic pattern to unlisten
      * @return {Promise<void>}
      */
-    public async notify(channel: string, payload: AnyJson): Promise<void> {
-        const packed = pack(payload, this.logger);
+    public async unlistenTopic(pattern: string): Promise<void> {
+        if (this.topics.delete(pattern) && !this.topics.size) {
+            this.topicListening = undefined;
+            await this.unlisten(this.options.topicChannel);
+        }
+    }
 
-        if (Buffer.byteLength(packed, 'utf8') > MAX_PAYLOAD_LENGTH) {
-            throw new RangeError(
-                `NOTIFY payload for channel '${channel}' exceeds the ` +
-                    `postgres limit of ${MAX_PAYLOAD_LENGTH} bytes`,
-            );
+    /**
+     * Returns async iterator over messages of a given channel, so they can
+     * be consumed with `for await` loop. The channel is listened on the
+     * first pull and unlistened once the loop exits or given signal
+     * aborts. The iteration also ends when this instance is closed or
+     * destroyed.
+     *
+     * @example
+     * ```typescript
+     * for await (const { channel, payload } of pubSub.iterate('orders')) {
+     *     console.log(channel, payload);
+     * }
+     * ```
+     *
+     * @param {string} channel - channel to iterate messages of
+     * @param {PgIterateOptions} [options] - iteration options
+     * @return {PgMessageIterator}
+     */
+    public iterate(
+        channel: string,
+        options?: PgIterateOptions,
+    ): PgMessageIterator {
+        return new PgMessageIterator(this, channel, options);
+    }
+
+    /**
+     * Starts running for the leadership of a given name among all
+     * processes electing under the same name, and resolves with the
+     * election handle once the first campaign is over. The election is
+     * held on an inter-process lock of a dedicated lock channel, regardless
+     * of `singleListener` option and of listened channels. It is left on
+     * resign, or once this instance is closed or destroyed.
+     *
+     * @example
+     * ```typescript
+     * const election = await pubSub.elect('cron', {
+     *     onElected: () => scheduler.start(),
+     *     onDemoted: () => scheduler.stop(),
+     * });
+     * ```
+     *
+     * @param {string} name - election name
+     * @param {PgElectOptions} [options] - election options
+     * @return {Promise<PgElection>}
+     */
+    public async elect(
+        name: string,
+        options?: PgElectOptions,
+    ): Promise<PgElection> {
+        for (const election of this.elections) {
+            if (election.name === name) {
+                throw new TypeError(
+                    `Election "${name}" is already held by this instance`,
+                );
+            }
         }
 
-        await this.pgClient.query(
-            `NOTIFY ${ident(channel)}, ${literal(packed)}`,
+        const election = new PgElection(
+            this,
+            name,
+            {
+                createLock: () =>
+                    this.buildLock(ELECTION_CHANNEL_PREFIX + name),
+                onStop: stopped => this.elections.delete(stopped),
+            },
+            options,
         );
 
-        this.emit('notify', channel, payload);
+        this.elections.add(election);
+        await election.start();
+
+        return election;
     }
 
     /**
-     * Returns list of all active subscribed channels
+     * Sends given payload as a request to a given channel and resolves
+     * with the reply payload sent by a responder, see `respond()`. Replies
+     * are received over a per-instance reply channel, which is listened on
+     * the first request, and matched to requests by correlation ids. If
+     * no reply arrives in time, the request is rejected with
+     * `PgTimeoutError`; if responder has failed, it is rejected with
+     * an error carrying responder error message.
      *
-     * @return {string[]}
+     * @example
+     * ```typescript
+     * const user = await pubSub.request('users', { id: 1 }, {
+     *     timeout: 5000,
+     * });
+     * ```
+     *
+     * @param {string} channel - channel to send request to
+     * @param {AnyJson} payload - request payload
+     * @param {PgRequestOptions} [options] - request options
+     * @return {Promise<AnyJson>}
      */
-    public activeChannels(): string[] {
-        return Object.keys(this.locks).filter(channel =>
-            this.locks[channel].isAcquired(),
-        );
+    public async request(
+        channel: string,
+        payload: AnyJson,
+        options: PgRequestOptions = {},
+    ): Promise<AnyJson> {
+        const id = uuid();
+        const timeout = options.timeout ?? REQUEST_TIMEOUT;
+
+        // channel validator applies to the request payload, not to the
+        // envelope it is wrapped in
+        this.assertValid(channel, payload);
+        await this.listenReplies();
+
+        return new Promise<AnyJson>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.requests.delete(id);
+                reject(
+                    new PgTimeoutError(
+                        `Request to channel '${channel}' timed out ` +
+                            `after ${timeout}ms`,
+                        timeout,
+                    ),
+                );
+            }, timeout);
+
+            this.requests.set(id, {
+                accept: reply => {
+                    if (reply.error !== undefined) {
+                        reject(new Error(String(reply.error)));
+                    } else {
+                        resolve(reply.payload ?? null);
+                    }
+
+                    return true;
+                },
+                reject,
+                timer,
+            });
+            super
+                .notify(channel, {
+                    [REQUEST_KEY]: id,
+                    replyTo: this.replyChannel,
+                    payload,
+                })
+                .catch(err => {
+                    clearTimeout(timer);
+                    this.requests.delete(id);
+                    reject(err);
+                });
+        });
     }
 
     /**
-     * Returns list of all inactive channels (those which are known, but
-     * not actively listening at a time)
+     * Broadcasts given payload as a request to every responder of a given
+     * channel, see `respond()`, and resolves with the replies collected
+     * before the timeout passes, or as soon as expected number of replies
+     * is collected. Broadcast requests bypass single listener and
+     * execution locks, so every responding instance answers them, and
+     * each reply is labelled with the responder application name.
      *
-     * @return {string[]}
+     * @example
+     * ```typescript
+     * const replies = await pubSub.gather('health', null, {
+     *     timeout: 1000,
+     *     expected: 3,
+     * });
+     * ```
+     *
+     * @param {string} channel - channel to send request to
+     * @param {AnyJson} payload - request payload
+     * @param {PgGatherOptions} [options] - gathering options
+     * @return {Promise<PgReply[]>}
      */
-    public inactiveChannels(): string[] {
-        return Object.keys(this.locks).filter(
-            channel => !this.locks[channel].isAcquired(),
-        );
+    public async gather(
+        channel: string,
+        payload: AnyJson,
+        options: PgGatherOptions = {},
+    ): Promise<PgReply[]> {
+        const id = uuid();
+        const { timeout = GATHER_TIMEOUT, expected } = options;
+        const replies: PgReply[] = [];
+
+        await this.listenReplies();
+
+        return new Promise<PgReply[]>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.requests.delete(id);
+                resolve(replies);
+            }, timeout);
+
+            this.requests.set(id, {
+                accept: reply => {
+                    replies.push({
+                        app: String(reply.app),
+                        payload: reply.payload ?? null,
+                        ...(reply.error !== undefined
+                            ? { error: String(reply.error) }
+                            : {}),
+                    });
+
+                    if (expected && replies.length >= expected) {
+                        resolve(replies);
+
+                        return true;
+                    }
+
+                    return false;
+                },
+                reject,
+                timer,
+            });
+            this.notify(GATHER_CHANNEL, {
+                [REQUEST_KEY]: id,
+                replyTo: this.replyChannel,
+                channel,
+                payload,
+            }).catch(err => {
+                clearTimeout(timer);
+                this.requests.delete(id);
+                reject(err);
+            });
+        });
     }
 
     /**
-     * Returns list of all known channels, despite the fact they are listening
-     * (active) or not (inactive).
+     * Answers requests sent to a given channel with `request()` and
+     * `gather()`: given handler result is sent back to the requester,
+     * while thrown error rejects the request with its message. Other
+     * messages received on the channel are ignored. In single listener
+     * mode only the lock holder answers requests, in execution lock mode -
+     * only the instance which has won the message lock, otherwise every
+     * responder answers, but requester takes only the first reply.
+     * Broadcast requests sent with `gather()` are answered by every
+     * responder anyway. Resolves with a function which stops answering
+     * requests.
      *
-     * @return {string[]}
+     * @example
+     * ```typescript
+     * await pubSub.respond('users', async ({ id }) => findUser(id));
+     * ```
+     *
+     * @param {string} channel - channel to answer requests on
+     * @param {PgRequestHandler} handler - request handler
+     * @param {PgSubscribeOptions} [options] - subscription options
+     * @return {Promise<() => void>}
      */
-    public allChannels(): string[] {
-        return Object.keys(this.locks);
+    public async respond(
+        channel: string,
+        handler: PgRequestHandler,
+        options?: PgSubscribeOptions,
+    ): Promise<() => void> {
+        const stopAnswering = await this.subscribe(
+            channel,
+            (message, context) => this.answer(message, context, handler),
+            options,
+        );
+
+        try {
+            const stopGathering = await this.subscribe(
+                GATHER_CHANNEL,
+                (message, context) =>
+                    (message as JsonMap)?.channel === channel
+                        ? this.answer(message, context, handler)
+                        : undefined,
+                options,
+            );
+
+            return () => {
+                stopAnswering();
+                stopGathering();
+            };
+        } catch (err) {
+            stopAnswering();
+
+            throw err;
+        }
     }
 
     /**
-     * If channel argument passed will return true if channel is in active
-     * state (listening by this pub/sub), false - otherwise. If channel is
-     * not specified - will return true if there is at least one active channel
-     * listened by this pub/sub, false - otherwise.
+     * Stops listening of the given channel, and, if singleListener option is
+     * set to true - will release an acquired lock (if it was settled).
      *
-     * @param {string} channel
-     * @return {boolean}
+     * @param {string} channel - channel name to unlisten
+     * @return {Promise<void>}
      */
-    public isActive(channel?: string): boolean {
-        if (!channel) {
-            return this.activeChannels().length > 0;
+    public async unlisten(channel: string): Promise<void> {
+        await this.listenClient(channel).query(`UNLISTEN ${ident(channel)}`);
+        this.listening.delete(channel);
+
+        if (this.locks[channel]) {
+            await this.locks[channel].destroy();
+            delete this.locks[channel];
         }
 
-        return !!~this.activeChannels().indexOf(channel);
+        this.emit('unlisten', [channel]);
     }
 
     /**
-     * Destroys this object properly, destroying all locks,
-     * closing all connections and removing all event listeners to avoid
-     * memory leaking. So whenever you need to destroy an object
-     * programmatically - use this method.
-     * Note, that after destroy it is broken and should be removed from memory.
+     * Stops listening all connected channels, and, if singleListener option
+     * is set to true - will release all acquired locks (if any was settled).
      *
      * @return {Promise<void>}
      */
-    public async destroy(): Promise<void> {
-        this.destroyed = true;
-
-        // destroy only locks owned by this instance: a process may run
-        // several PgPubSub instances and a static sweep would kill locks
-        // belonging to the others
+    public async unlistenAll(): Promise<void> {
         await Promise.all(
-            Object.keys(this.locks).map(channel =>
-                this.locks[channel].destroy(),
+            [this.pgClient, ...this.shardClients].map(client =>
+                client.query('UNLISTEN *'),
             ),
         );
-        this.locks = {};
+        this.listening.clear();
+        await this.release();
+        this.topics.clear();
+        this.topicListening = undefined;
+        this.replyListening = undefined;
 
-        await this.close();
-        this.channels.removeAllListeners();
-        this.removeAllListeners();
+        this.emit('unlisten', Object.keys(this.locks));
     }
 
     /**
-     * Safely sets given handler for given pg client events, making sure
-     * we won't flood events with non-fired same stack of handlers
+     * Performs NOTIFY to a given channel with a given payload to all
+     * listening subscribers. Payloads exceeding postgres limit are stored
+     * in the payload table if payloadStore option is set to true, or sent
+     * as a sequence of fragments if chunked option is set to true.
+     * Payloads which do not pass validation of the channel defined with
+     * `channel()` are rejected with `TypeError`.
+     *
+     * If client option is given, notification (as well as the stored body
+     * or durable log entry) is written with that client, so when it runs
+     * a transaction, the message is delivered only if the transaction
+     * commits. Note, `'notify'` event is emitted once NOTIFY is issued,
+     * not when the transaction commits.
+     *
+     * @example
+     * ```typescript
+     * const client = await pool.connect();
+     *
+     * await client.query('BEGIN');
+     * await client.query('INSERT INTO orders ...');
+     * await pubSub.notify('OrderCreated', { id: 1 }, { client });
+     * await client.query('COMMIT');
+     * ```
+     *
+     * @param {string} channel - channel to publish to
+     * @param {AnyJson} payload - payload to publish for subscribers
+     * @param {PgNotifyOptions} [options] - notify options
+     * @return {Promise<void>}
+     */
+    public override async notify(
+        channel: string,
+        payload: AnyJson,
+        options: PgNotifyOptions = {},
+    ): Promise<void> {
+        this.assertValid(channel, payload);
+        await super.notify(channel, payload, options);
+    }
+
+    /**
+     * Publishes all given messages in order with a single `pg_notify()`
+     * statement, so either all of them are sent, or none. Every payload
+     * is validated and checked against postgres size limit before
+     * anything is sent: oversized payloads are stored or chunked the same
+     * way as by `notify()`, or the whole batch is rejected with
+     * `RangeError`. Note, stored bodies and durable log entries are
+     * written before the batch is sent. Client option can be used to
+     * publish within caller's transaction, see `notify()`.
+     *
+     * @example
+     * ```typescript
+     * await pubSub.notifyMany([
+     *     { channel: 'OrderCreated', payload: { id: 1 } },
+     *     { channel: 'OrderCreated', payload: { id: 2 } },
+     * ]);
+     * ```
+     *
+     * @param {PgOutgoingMessage[]} messages - messages to publish
+     * @param {PgNotifyOptions} [options] - notify options
+     * @return {Promise<void>}
+     */
+    public override async notifyMany(
+        messages: PgOutgoingMessage[],
+        options: PgNotifyOptions = {},
+    ): Promise<void> {
+        for (const { channel, payload } of messages) {
+            this.assertValid(channel, payload);
+        }
+
+        await super.notifyMany(messages, options);
+    }
+
+    /**
+     * Returns connection messages are published with: publishing pool, if
+     * given, or the listening connection otherwise
+     *
+     * @return {PgQueryable}
+     */
+    protected override publishClient(): PgQueryable {
+        return this.options.publishPool ? super.publishClient() : this.pgClient;
+    }
+
+    /**
+     * Verifies given payload passes validation of a given channel, see
+     * `channel()`, throwing `TypeError` otherwise
+     *
+     * @access private
+     * @param {string} channel - channel to publish to
+     * @param {AnyJson} payload - payload to verify
+     * @return {void}
+     */
+    private assertValid(channel: string, payload: AnyJson): void {
+        const valid = this.validate(channel, payload);
+
+        if (valid !== true) {
+            throw new TypeError(
+                `Invalid payload for channel '${channel}'`,
+                valid ? { cause: valid } : undefined,
+            );
+        }
+    }
+
+    /**
+     * Returns dead letters parked for a given channel, or for all channels
+     * if channel is not given. See `deadLetter` option.
+     *
+     * @param {string} [channel] - channel name
+     * @return {Promise<PgDeadLetter[]>}
+     */
+    public async deadLetters(channel?: string): Promise<PgDeadLetter[]> {
+        return this.deadLetterTable().list(channel);
+    }
+
+    /**
+     * Re-drives dead letter with a given identifier: removes it from the
+     * dead-letter table and publishes its original payload to the original
+     * channel again. Resolves false if there is no such dead letter (e.g.
+     * it has already been re-driven). If publishing fails, the letter is
+     * parked back (under a new identifier) and the error is re-thrown, so
+     * the message is never lost.
+     *
+     * @param {number} id - dead letter identifier
+     * @return {Promise<boolean>}
+     */
+    public async redrive(id: number): Promise<boolean> {
+        const store = this.deadLetterTable();
+        const letter = await store.take(id);
+
+        if (!letter) {
+            return false;
+        }
+
+        try {
+            await this.notify(letter.channel, letter.payload);
+        } catch (err) {
+            await store.park(
+                letter.channel,
+                pack(letter.payload, this.logger),
+                letter.error,
+                letter.attempts,
+            );
+
+            throw err;
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns list of all active subscribed channels
+     *
+     * @return {string[]}
+     */
+    public activeChannels(): string[] {
+        return Object.keys(this.locks).filter(channel =>
+            this.locks[channel].isAcquired(),
+        );
+    }
+
+    /**
+     * Returns list of all inactive channels (those which are known, but
+     * not actively listening at a time)
+     *
+     * @return {string[]}
+     */
+    public inactiveChannels(): string[] {
+        return Object.keys(this.locks).filter(
+            channel => !this.locks[channel].isAcquired(),
+        );
+    }
+
+    /**
+     * Returns list of all known channels, despite the fact they are listening
+     * (active) or not (inactive).
+     *
+     * @return {string[]}
+     */
+    public allChannels(): string[] {
+        return this.knownChannels();
+    }
+
+    /**
+     * If channel argument passed will return true if channel is in active
+     * state (listening by this pub/sub), false - otherwise. If channel is
+     * not specified - will return true if there is at least one active channel
+     * listened by this pub/sub, false - otherwise.
+     *
+     * @param {string} channel
+     * @return {boolean}
+     */
+    public isActive(channel?: string): boolean {
+        if (!channel) {
+            return this.activeChannels().length > 0;
+        }
+
+        return !!~this.activeChannels().indexOf(channel);
+    }
+
+    /**
+     * Destroys this object properly, destroying all locks,
+     * closing all connections and removing all event listeners to avoid
+     * memory leaking. So whenever you need to destroy an object
+     * programmatically - use this method.
+     * Note, that after destroy it is broken and should be removed from memory.
+     *
+     * @return {Promise<void>}
+     */
+    public async destroy(): Promise<void> {
+        this.destroyed = true;
+
+        // resign before the connection is closed, so other candidates
+        // take the leadership over right away on the release event
+        await Promise.all(
+            [...this.elections].map(election => election.resign()),
+        );
+
+        // destroy only locks owned by this instance: a process may run
+        // several PgPubSub instances and a static sweep would kill locks
+        // belonging to the others
+        await Promise.all(
+            Object.keys(this.locks).map(channel =>
+                this.locks[channel].destroy(),
+            ),
+        );
+        this.locks = {};
+        this.fragments.clear();
+        this.replaying = {};
+        this.delivered = {};
+
+        for (const timer of Object.values(this.settleTimers)) {
+            clearTimeout(timer);
+        }
+
+        this.settleTimers = {};
+
+        for (const timer of this.redeliveries) {
+            clearTimeout(timer);
+        }
+
+        this.redeliveries.clear();
+
+        for (const { reject, timer } of this.requests.values()) {
+            clearTimeout(timer);
+            reject(new Error('PgPubSub instance has been destroyed'));
+        }
+
+        this.requests.clear();
+        this.replyListening = undefined;
+
+        await this.close();
+        this.channels.removeAllListeners();
+        this.removeAllListeners();
+    }
+
+    /**
+     * Safely sets given handler for given pg client events, making sure
+     * we won't flood events with non-fired same stack of handlers
+     *
+     * @access private
+     * @param {string[]} events - list of events to set handler for
+     * @param {(...args: any[]) => any} handler - handler reference
+     * @return {PgPubSub}
+     */
+    private setOnceHandler(
+        events: string[],
+        handler: (...args: any[]) => any,
+    ): PgPubSub {
+        for (const event of events) {
+            // make sure we won't flood events with given handler,
+            // so do a cleanup first
+            this.clearListeners(event, handler);
+            // now set event handler
+            this.pgClient.once(event, handler);
+        }
+
+        return this;
+    }
+
+    /**
+     * Clears all similar handlers under given event
+     *
+     * @param {string} event - event name
+     * @param {(...args: any) => any} handler - handler reference
+     */
+    private clearListeners(
+        event: string,
+        handler: (...args: any[]) => any,
+    ): void {
+        this.pgClient
+            .listeners(event)
+            .forEach(
+                listener =>
+                    listener === handler && this.pgClient.off(event, handler),
+            );
+    }
+
+    /**
+     * Database notification event handler
+     *
+     * @access private
+     * @param {Notification} notification - database message data
+     * @return {Promise<void>}
+     */
+    private async onNotification(notification: Notification): Promise<void> {
+        const receivedAt = new Date();
+        const skip =
+            this.destroyed ||
+            RX_LOCK_CHANNEL.test(notification.channel) ||
+            RX_ADVISORY_LOCK_CHANNEL.test(notification.channel) ||
+            (this.options.filtered &&
+                this.processId === notification.processId);
+
+        if (skip) {
+            // as we use the same connection with locks mechanism
+            // we should avoid pub/sub client to parse lock channels data
+            // and also filter same-notify-channel messages if filtered option
+            // is set to true
+            return;
+        }
+
+        const lock = await this.lock(notification.channel);
+
+        if (this.options.singleListener && !lock.isAcquired()) {
+            return; // we are not really a listener
+        }
+
+        const raw = this.assemble(notification);
+
+        if (raw === null) {
+            return; // chunked message is not complete yet
+        }
+
+        const meta = this.messageMeta(
+            notification.channel,
+            raw as string,
+            notification.processId,
+            receivedAt,
+        );
+
+        if (isLogEntry(raw)) {
+            return this.receiveLogged(notification.channel, meta);
+        }
+
+        const body = await this.dereference(notification.channel, raw);
+
+        if (body === null) {
+            return; // stored message body is gone
+        }
+
+        await this.deliver(notification.channel, unpack(body), meta);
+    }
+
+    /**
+     * Database notification event handler for execution lock
+     *
+     * @access private
+     * @param {Notification} notification - database message data
+     * @return {Promise<void>}
+     */
+    private async onNotificationLockExec(
+        notification: Notification,
+    ): Promise<void> {
+        const receivedAt = new Date();
+        const skip =
+            this.destroyed ||
+            RX_LOCK_CHANNEL.test(notification.channel) ||
+            RX_ADVISORY_LOCK_CHANNEL.test(notification.channel) ||
+            (this.options.filtered &&
+                this.processId === notification.processId);
+
+        if (skip) {
+            // as we use the same connection with locks mechanism
+            // we should avoid pub/sub client to parse lock channels data
+            // and also filter same-notify-channel messages if filtered option
+            // is set to true
+            return;
+        }
+
+        // every instance listens, so chunked messages are re-assembled
+        // before competing for the execution lock on the whole message
+        const raw = this.assemble(notification);
+
+        if (raw === null) {
+            return; // chunked message is not complete yet
+        }
+
+        const meta = this.messageMeta(
+            notification.channel,
+            raw as string,
+            notification.processId,
+            receivedAt,
+        );
+
+        if (isLogEntry(raw)) {
+            return this.receiveLogged(notification.channel, meta);
+        }
+
+        if (notification.channel === GATHER_CHANNEL) {
+            // broadcast requests are answered by every instance
+            const body = await this.dereference(notification.channel, raw);
+
+            return body === null
+                ? undefined
+                : this.deliver(notification.channel, unpack(body), meta);
+        }
+
+        await this.executeOnce(
+            notification.channel,
+            signature(notification.processId, notification.channel, raw),
+            async (attempt, fencingToken) => {
+                // stored bodies are fetched by the executor only
+                const body = await this.dereference(notification.channel, raw);
+
+                // a gone body is already reported and cannot be recovered
+                // by re-delivery, so it is acknowledged as is
+                return (
+                    body === null ||
+                    this.handleMessage(
+                        notification.channel,
+                        unpack(body),
+                        { ...meta, fencingToken },
+                        attempt,
+                    )
+                );
+            },
+        );
+    }
+
+    /**
+     * Runs given message handling routine only if this instance wins the
+     * execution lock for a given message unique key. The message is
+     * acknowledged if the routine resolves true, otherwise it is released
+     * for re-delivery. Listeners which lost the lock re-try after the
+     * visibility timeout, unless the message has been acknowledged.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {string} uniqueKey - message unique key
+     * @param {(attempt: number, fencingToken?: number) => Promise<boolean>}
+     * run - message handling routine, given the execution lock fencing token
+     * @param {number} [attempt] - handling attempt number
+     * @return {Promise<void>}
+     */
+    private async executeOnce(
+        channel: string,
+        uniqueKey: string,
+        run: (attempt: number, fencingToken?: number) => Promise<boolean>,
+        attempt = 1,
+    ): Promise<void> {
+        let lock: AnyLock;
+
+        try {
+            lock = await this.createLock(channel, uniqueKey);
+        } catch (err) {
+            // lock bootstrap failed (e.g. missing ddl privileges); it is
+            // already logged loudly - skip this message rather than raise
+            // an unhandled rejection from the notification handler
+            this.emitError(err as Error);
+
+            return;
+        }
+
+        try {
+            await lock.acquire();
+
+            if (this.options.singleListener && !lock.isAcquired()) {
+                // we are not really a listener, unless the executor fails
+                if (!lock.isProcessed?.()) {
+                    this.redeliver(channel, uniqueKey, run, attempt);
+                }
+
+                return;
+            }
+
+            if (await run(attempt, lock.fencingToken)) {
+                await lock.ack?.();
+            } else {
+                await lock.release();
+                this.redeliver(channel, uniqueKey, run, attempt);
+            }
+        } catch (err) {
+            this.emitError(err as Error);
+        } finally {
+            // free local resources only: the lock record must stay in the
+            // database as a processed-message marker, otherwise a slower
+            // competing listener would re-insert it and process the same
+            // message again. Stale markers are cleaned up by TTL on
+            // subsequent unique lock acquisitions.
+            lock.dispose();
+        }
+    }
+
+    /**
+     * Schedules another execution attempt of a given message handling
+     * routine after the visibility timeout. Only makes sense with real
+     * inter-process locks, so does nothing in multi-listener mode.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {string} uniqueKey - message unique key
+     * @param {(attempt: number, fencingToken?: number) => Promise<boolean>}
+     * run - message handling routine
+     * @param {number} attempt - failed handling attempt number
+     * @return {void}
+     */
+    private redeliver(
+        channel: string,
+        uniqueKey: string,
+        run: (attempt: number, fencingToken?: number) => Promise<boolean>,
+        attempt: number,
+    ): void {
+        if (!this.options.singleListener) {
+            return;
+        }
+
+        this.retryLater(() =>
+            this.executeOnce(channel, uniqueKey, run, attempt + 1),
+        );
+    }
+
+    /**
+     * Schedules given retry routine to run after the visibility timeout,
+     * unless this instance is destroyed
+     *
+     * @access private
+     * @param {() => Promise<void>} retry - retry routine
+     * @return {void}
+     */
+    private retryLater(retry: () => Promise<void>): void {
+        if (this.destroyed) {
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            this.redeliveries.delete(timer);
+            // eslint-disable-next-line @typescript-eslint/no-floating-promises
+            retry();
+        }, this.options.ackTimeout);
+
+        this.redeliveries.add(timer);
+    }
+
+    /**
+     * Delivers given message payload without execution lock. If
+     * dead-lettering is enabled, handlers are awaited and the message is
+     * re-delivered after the visibility timeout if they fail, otherwise
+     * it is simply emitted.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @param {PgMessageMeta} meta - message delivery details
+     * @param {number} [attempt] - handling attempt number
+     * @return {Promise<void>}
+     */
+    private async deliver(
+        channel: string,
+        payload: AnyJson,
+        meta: PgMessageMeta,
+        attempt = 1,
+    ): Promise<void> {
+        if (!this.options.deadLetter) {
+            return this.emitMessage(channel, payload, meta);
+        }
+
+        if (!(await this.handleMessage(channel, payload, meta, attempt))) {
+            this.retryLater(() =>
+                this.deliver(channel, payload, meta, attempt + 1),
+            );
+        }
+    }
+
+    /**
+     * Runs subscribed handler on a given message, awaiting its result no
+     * longer than the subscription timeout. Failures are reported with
+     * `'handlerError'` event and reject the message, never the returned
+     * promise.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @param {PgMessageContext} context - message handling context
+     * @param {PgMessageHandler} handler - subscribed handler
+     * @param {PgSubscribeOptions} options - subscription options
+     * @return {Promise<void>}
+     */
+    private async runHandler(
+        channel: string,
+        payload: AnyJson,
+        context: PgMessageContext,
+        handler: PgMessageHandler,
+        { timeout }: PgSubscribeOptions,
+    ): Promise<void> {
+        let timer: NodeJS.Timeout | undefined;
+
+        try {
+            const handling = (async () => handler(payload, context))();
+            const expiring = new Promise<never>((_, reject) => {
+                if (timeout) {
+                    timer = setTimeout(() => {
+                        reject(
+                            new PgTimeoutError(
+                                `Handler on channel '${channel}' timed out ` +
+                                    `after ${timeout}ms`,
+                                timeout,
+                            ),
+                        );
+                    }, timeout);
+                }
+            });
+
+            await Promise.race([handling, expiring]);
+        } catch (err) {
+            context.nack(err as Error);
+            this.onHandlerError(err as Error, channel, payload);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Emits given message payload to `'message'` listeners and then to the
+     * corresponding channel listeners
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @param {PgMessageMeta} meta - message delivery details
+     * @return {void}
+     */
+    private emitMessage(
+        channel: string,
+        payload: AnyJson,
+        meta: PgMessageMeta,
+    ): void {
+        if (this.settleRequest(channel, payload)) {
+            return;
+        }
+
+        const route = this.route(channel, payload);
+
+        if (!route) {
+            return;
+        }
+
+        // there is nothing to acknowledge
+        const context: PgMessageContext = {
+            meta,
+            ack: () => undefined,
+            nack: () => undefined,
+        };
+        const [name, body, targets] = route;
+
+        this.emit('message', name, body, context);
+
+        for (const target of targets) {
+            this.channels.emit(target, body, context);
+        }
+    }
+
+    /**
+     * Runs given request handler on a given request message and sends its
+     * result back to the requester. Messages which are not requests are
+     * ignored.
+     *
+     * @access private
+     * @param {AnyJson} message - received message payload
+     * @param {PgMessageContext} context - message handling context
+     * @param {PgRequestHandler} handler - request handler
+     * @return {Promise<void>}
+     */
+    private async answer(
+        message: AnyJson,
+        context: PgMessageContext,
+        handler: PgRequestHandler,
+    ): Promise<void> {
+        const id = (message as JsonMap)?.[REQUEST_KEY];
+        const replyTo = (message as JsonMap)?.replyTo;
+
+        if (typeof id !== 'string' || typeof replyTo !== 'string') {
+            return;
+        }
+
+        const reply: JsonMap = { [REPLY_KEY]: id, app: this.pgClient.appName };
+
+        try {
+            reply.payload = await handler(
+                (message as JsonMap).payload ?? null,
+                context,
+            );
+        } catch (err) {
+            reply.error = String((err as Error)?.message ?? err);
+        }
+
+        await this.notify(replyTo, reply);
+    }
+
+    /**
+     * Settles pending request with a given reply, if the message has been
+     * received on the reply channel. Replies to unknown requests (e.g.
+     * timed out, or already answered) are dropped. Returns true if the
+     * message is a reply and should not be dispatched to listeners.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @return {boolean}
+     */
+    private settleRequest(channel: string, payload: AnyJson): boolean {
+        if (channel !== this.replyChannel) {
+            return false;
+        }
+
+        const reply = payload as JsonMap;
+        const id = reply?.[REPLY_KEY] as string;
+        const request = this.requests.get(id);
+
+        if (!request) {
+            return true;
+        }
+
+        if (request.accept(reply)) {
+            clearTimeout(request.timer);
+            this.requests.delete(id);
+        }
+
+        return true;
+    }
+
+    /**
+     * Starts listening the reply channel of this instance, if not yet
+     *
+     * @access private
+     * @return {Promise<void>}
+     */
+    private async listenReplies(): Promise<void> {
+        this.replyListening ??= this.listen(this.replyChannel).catch(err => {
+            this.replyListening = undefined;
+
+            throw err;
+        });
+
+        await this.replyListening;
+    }
+
+    /**
+     * Builds delivery details of a message with a given raw payload. As
+     * messages are delivered only to the lock holders in single listener
+     * mode, the lock is considered held whenever this mode is on, and its
+     * fencing token is the one of the channel lock (execution locks
+     * replace it with their own on handling).
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {string} raw - raw message payload
+     * @param {number} [processId] - sender database backend process id
+     * @param {Date} [receivedAt] - message receive time
+     * @return {PgMessageMeta}
+     */
+    private messageMeta(
+        channel: string,
+        raw: string,
+        processId?: number,
+        receivedAt = new Date(),
+    ): PgMessageMeta {
+        return {
+            processId,
+            receivedAt,
+            raw,
+            size: Buffer.byteLength(raw, 'utf8'),
+            locked: this.options.singleListener,
+            fencingToken: this.locks[channel]?.fencingToken,
+        };
+    }
+
+    /**
+     * Resolves message dispatch targets. Topic messages received on the
+     * topic channel are unwrapped and dispatched to the listened patterns
+     * matching topic routing key, other messages - to the channel they
+     * were received on. Targets which reject the payload by validation
+     * are reported and skipped; if the message itself is invalid,
+     * undefined is returned. Request envelopes are validated by the
+     * request payload they carry.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @return {[string, AnyJson, string[]] | undefined} - message channel
+     * name (topic routing key for topic messages), message payload and
+     * channels to dispatch it to
+     */
+    private route(
+        channel: string,
+        payload: AnyJson,
+    ): [string, AnyJson, string[]] | undefined {
+        const topic = (payload as JsonMap)?.[TOPIC_KEY];
+        const isValid = (target: string, body: AnyJson) => {
+            const result = this.validate(target, body);
+
+            if (result !== true) {
+                this.onInvalid(target, body, result || undefined);
+            }
+
+            return result === true;
+        };
+
+        if (
+            channel !== this.options.topicChannel ||
+            typeof topic !== 'string'
+        ) {
+            const request =
+                typeof (payload as JsonMap)?.[REQUEST_KEY] === 'string';
+
+            return isValid(
+                channel,
+                request ? ((payload as JsonMap).payload ?? null) : payload,
+            )
+                ? [channel, payload, [channel]]
+                : undefined;
+        }
+
+        const body = (payload as JsonMap).payload ?? null;
+
+        return [
+            topic,
+            body,
+            [...this.topics].filter(
+                pattern => matchTopic(pattern, topic) && isValid(pattern, body),
+            ),
+        ];
+    }
+
+    /**
+     * Validates given payload with a given channel validator, if any.
+     * Returns true if payload is valid, validator error if it has thrown,
+     * false - otherwise.
+     *
+     * @access private
+     * @param {string} channel - channel name
+     * @param {AnyJson} payload - payload to validate
+     * @return {boolean | Error}
+     */
+    private validate(channel: string, payload: AnyJson): boolean | Error {
+        const validator = this.validators.get(channel);
+
+        try {
+            return !validator || !!validator(payload);
+        } catch (err) {
+            return err as Error;
+        }
+    }
+
+    /**
+     * Invokes `'message'` listeners and then the corresponding channel
+     * listeners with given message payload, awaiting all the promises they
+     * return. Resolves true if the message should be acknowledged: either
+     * all the listeners succeeded, one of them called `ack()` first, or
+     * the message failed too many times and has been dead-lettered.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @param {PgMessageMeta} meta - message delivery details
+     * @param {number} [attempt] - handling attempt number
+     * @return {Promise<boolean>}
+     */
+    private async handleMessage(
+        channel: string,
+        payload: AnyJson,
+        meta: PgMessageMeta,
+        attempt = 1,
+    ): Promise<boolean> {
+        let verdict: boolean | undefined;
+        let reason = 'Message has been rejected by handler';
+
+        const context: PgMessageContext = {
+            meta,
+            ack: () => void (verdict ??= true),
+            nack: (err?: Error) => {
+                if (verdict === undefined && err) {
+                    reason = err.message;
+                }
+
+                verdict ??= false;
+            },
+        };
+        const invoke = (emitter: EventEmitter, event: string, args: any[]) =>
+            emitter
+                .rawListeners(event)
+                .map(async listener =>
+                    (listener as (...args: any[]) => any).apply(emitter, args),
+                );
+        if (this.settleRequest(channel, payload)) {
+            return true;
+        }
+
+        const route = this.route(channel, payload);
+
+        if (!route) {
+            return true; // invalid message can not be handled ever
+        }
+
+        const [name, body, targets] = route;
+        const results = await Promise.allSettled([
+            ...invoke(this, 'message', [name, body, context]),
+            ...targets.flatMap(target =>
+                invoke(this.channels, target, [body, context]),
+            ),
+        ]);
+
+        for (const result of results) {
+            if (result.status === 'rejected') {
+                reason = String(result.reason?.message ?? result.reason);
+                this.emitError(result.reason);
+            }
+        }
+
+        if (verdict ?? results.every(({ status }) => status === 'fulfilled')) {
+            return true;
+        }
+
+        if (this.options.deadLetter && attempt >= this.options.maxAttempts) {
+            return this.bury(channel, payload, reason, attempt);
+        }
+
+        return false;
+    }
+
+    /**
+     * Parks given message payload in the dead-letter table and publishes
+     * it to the dead-letter channel, if configured. Resolves false if the
+     * message could not be parked, so it is re-delivered later. Once
+     * parked, the message is settled: failure to publish it to the
+     * dead-letter channel is reported only, as re-delivery would park it
+     * again.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {AnyJson} payload - message payload
+     * @param {string} error - last handling error message
+     * @param {number} attempts - number of failed handling attempts
+     * @return {Promise<boolean>}
+     */
+    private async bury(
+        channel: string,
+        payload: AnyJson,
+        error: string,
+        attempts: number,
+    ): Promise<boolean> {
+        let id: number;
+
+        try {
+            id = await this.deadLetterTable().park(
+                channel,
+                pack(payload, this.logger),
+                error,
+                attempts,
+            );
+        } catch (err) {
+            this.emitError(err as Error);
+
+            return false;
+        }
+
+        if (typeof this.options.deadLetter === 'string') {
+            try {
+                await this.notify(this.options.deadLetter, {
+                    id,
+                    channel,
+                    payload,
+                    error,
+                    attempts,
+                    app: this.pgClient.appName,
+                });
+            } catch (err) {
+                this.emitError(err as Error);
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Handles live durable channel log entry notification. While the
+     * channel is being replayed, entries are queued to keep the order.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {PgMessageMeta} meta - delivery details of the log entry
+     * envelope
+     * @return {Promise<void>}
+     */
+    private async receiveLogged(
+        channel: string,
+        meta: PgMessageMeta,
+    ): Promise<void> {
+        const envelope = unpack(meta.raw, this.logger) as JsonMap;
+        const entry = {
+            seq: +(envelope[LOG_KEY] as number),
+            payload: envelope.payload,
+            meta,
+        };
+
+        if (this.replaying[channel]) {
+            this.replaying[channel].push(entry);
+
+            return;
+        }
+
+        await this.consumeLogged(channel, entry.seq, entry.meta, entry.payload);
+    }
+
+    /**
+     * Delivers durable channel log entry unless it has already been seen
+     * by this subscriber, and advances the subscriber cursor. Entry payload
+     * is fetched from the log if not given. Entries may arrive out of
+     * sequence order (sequence numbers are taken on insert, while
+     * notifications are sent in commit order), so entries above the cursor
+     * are tracked one by one until the cursor settles over them.
+     *
+     * @access private
+     * @param {string} channel - channel entry logged for
+     * @param {number} seq - entry sequence number
+     * @param {PgMessageMeta} meta - entry delivery details
+     * @param {AnyJson} [payload] - entry payload
+     * @return {Promise<void>}
+     */
+    private async consumeLogged(
+        channel: string,
+        seq: number,
+        meta: PgMessageMeta,
+        payload?: AnyJson,
+    ): Promise<void> {
+        const delivered = (this.delivered[channel] ??= new Set());
+
+        if (seq <= (this.cursors[channel] ?? 0) || delivered.has(seq)) {
+            return; // already seen
+        }
+
+        delivered.add(seq);
+
+        try {
+            const log = this.channelLog();
+            const body =
+                payload === undefined ? await log.fetch(seq) : undefined;
+
+            if (payload === undefined && body === undefined) {
+                this.emitError(
+                    new Error(
+                        `Log entry ${seq} for channel '${channel}' not ` +
+                            'found, message dropped',
+                    ),
+                );
+            } else {
+                const message = payload === undefined ? unpack(body) : payload;
+
+                if (this.options.executionLock) {
+                    // log sequence is the message identity, so live and
+                    // replayed deliveries compete for the same lock
+                    await this.executeOnce(
+                        channel,
+                        signature(0, channel, seq),
+                        async (attempt, fencingToken) =>
+                            this.handleMessage(
+                                channel,
+                                message,
+                                { ...meta, fencingToken },
+                                attempt,
+                            ),
+                    );
+                } else {
+                    await this.deliver(channel, message, meta);
+                }
+            }
+
+            this.settle(channel);
+        } catch (err) {
+            this.emitError(err as Error);
+        }
+    }
+
+    /**
+     * Schedules the subscriber cursor of a given channel to move over the
+     * entries delivered so far once `durableSettleDelay` passes, unless
+     * it is scheduled already. Entries delivered meanwhile are settled by
+     * the next run.
+     *
+     * @access private
+     * @param {string} channel - channel to settle the cursor of
+     * @return {void}
+     */
+    private settle(channel: string): void {
+        if (this.settleTimers[channel] || this.destroyed) {
+            return;
+        }
+
+        let until = 0;
+
+        for (const seq of this.delivered[channel] ?? []) {
+            until = Math.max(until, seq);
+        }
+
+        this.settleTimers[channel] = setTimeout(async () => {
+            try {
+                await this.advanceCursor(channel, until);
+            } catch (err) {
+                this.emitError(err as Error);
+            } finally {
+                delete this.settleTimers[channel];
+
+                if (this.delivered[channel]?.size) {
+                    this.settle(channel);
+                }
+            }
+        }, this.options.durableSettleDelay);
+    }
+
+    /**
+     * Moves the subscriber cursor of a given channel up to a given
+     * delivered log entry. Entries with lower sequence numbers, which
+     * have been committed but not delivered live (e.g. their notifications
+     * arrived late), are read from the log and delivered first, so the
+     * persisted cursor never moves over an entry which has not been
+     * delivered. Only the entries between the cursor and the given one are
+     * read.
+     *
+     * @access private
+     * @param {string} channel - channel to advance the cursor of
+     * @param {number} until - sequence number of the delivered entry
+     * @return {Promise<void>}
+     */
+    private async advanceCursor(channel: string, until: number): Promise<void> {
+        const log = this.channelLog();
+        const delivered = this.delivered[channel] ?? new Set();
+        const from = this.cursors[channel] ?? 0;
+
+        if (until <= from) {
+            return;
+        }
+
+        for (const { seq, body } of await log.since(channel, from, until)) {
+            if (!delivered.has(seq)) {
+                await this.consumeLogged(
+                    channel,
+                    seq,
+                    this.messageMeta(channel, body),
+                    unpack(body, this.logger),
+                );
+            }
+        }
+
+        this.cursors[channel] = Math.max(this.cursors[channel] ?? 0, until);
+
+        for (const seq of delivered) {
+            if (seq <= until) {
+                delivered.delete(seq);
+            }
+        }
+
+        await log.commit(this.subscriberId, channel, until);
+    }
+
+    /**
+     * Replays durable channel log entries this subscriber has missed on a
+     * given channel, queueing live entries until replay is done. On the
+     * very first subscription the cursor starts from the channel log head,
+     * so nothing is replayed.
+     *
+     * @access private
+     * @param {string} channel - channel to replay
+     * @return {Promise<void>}
+     */
+    private async replay(channel: string): Promise<void> {
+        if (!this.options.durable || this.replaying[channel]) {
+            return;
+        }
+
+        const queue: (typeof this.replaying)[string] = [];
+
+        this.replaying[channel] = queue;
+
+        try {
+            const log = this.channelLog();
+            const cursor = await log.cursor(this.subscriberId, channel);
+
+            if (cursor === undefined) {
+                this.cursors[channel] = Math.max(
+                    this.cursors[channel] ?? 0,
+                    await log.head(channel),
+                );
+                await log.commit(
+                    this.subscriberId,
+                    channel,
+                    this.cursors[channel],
+                );
+            } else {
+                this.cursors[channel] = Math.max(
+                    this.cursors[channel] ?? 0,
+                    cursor,
+                );
+
+                const entries = await log.since(channel, this.cursors[channel]);
+
+                for (const { seq, body } of entries) {
+                    await this.consumeLogged(
+                        channel,
+                        seq,
+                        this.messageMeta(channel, body),
+                        unpack(body, this.logger),
+                    );
+                }
+            }
+        } catch (err) {
+            this.emitError(err as Error);
+        } finally {
+            // drain live entries received meanwhile, still flagged as
+            // replaying, so newer entries cannot overtake queued ones
+            while (queue.length) {
+                const { seq, payload, meta } =
+                    queue.shift() as (typeof queue)[0];
+
+                await this.consumeLogged(channel, seq, meta, payload);
+            }
+
+            delete this.replaying[channel];
+        }
+    }
+
+    /**
+     * Returns raw packed payload of a given notification. Fragments of
+     * chunked messages are collected until the whole message arrives, so
+     * null is returned for each but the last fragment.
+     *
+     * @access private
+     * @param {Notification} notification - database message data
+     * @return {string | undefined | null}
+     */
+    private assemble(notification: Notification): string | undefined | null {
+        if (!isFragment(notification.payload)) {
+            return notification.payload;
+        }
+
+        const envelope = unpack(notification.payload, this.logger) as JsonMap;
+        const part = envelope[FRAGMENT_KEY] as unknown as PgFragment;
+
+        return this.fragments.add(notification.channel, part) ?? null;
+    }
+
+    /**
+     * Resolves given raw payload referencing a message body stored in the
+     * payload table to the stored body, other payloads are returned as is.
+     * Returns null if the stored body cannot be fetched, which is reported
+     * as an error.
+     *
+     * @access private
+     * @param {string} channel - channel message received on
+     * @param {string} [raw] - raw packed payload
+     * @return {Promise<string | undefined | null>}
+     */
+    private async dereference(
+        channel: string,
+        raw?: string,
+    ): Promise<string | undefined | null> {
+        if (!isPointer(raw)) {
+            return raw;
+        }
+
+        const id = String((unpack(raw, this.logger) as JsonMap)[PAYLOAD_KEY]);
+
+        try {
+            const body = await this.payloadStore().fetch(id);
+
+            if (body !== undefined) {
+                return body;
+            }
+
+            this.emitError(
+                new Error(
+                    `Stored payload ${id} for channel '${channel}' not ` +
+                        'found, message dropped',
+                ),
+            );
+        } catch (err) {
+            this.emitError(err as Error);
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns payload store bound to the current underlying pg client
+     *
+     * @access private
+     * @return {PgPayloadStore}
+     */
+    private payloadStore(): PgPayloadStore {
+        if (!this.store || this.store.options.pgClient !== this.pgClient) {
+            this.store = new PgPayloadStore({
+                pgClient: this.pgClient,
+                logger: this.logger,
+                ttl: this.options.payloadTtl,
+            });
+        }
+
+        return this.store;
+    }
+
+    /**
+     * Returns durable channel log bound to the current underlying pg client
+     *
+     * @access private
+     * @return {PgChannelLog}
+     */
+    private channelLog(): PgChannelLog {
+        if (!this.log || this.log.options.pgClient !== this.pgClient) {
+            this.log = new PgChannelLog({
+                pgClient: this.pgClient,
+                logger: this.logger,
+                ttl: this.options.durableTtl,
+            });
+        }
+
+        return this.log;
+    }
+
+    /**
+     * Returns dead-letter store bound to the current underlying pg client
+     *
+     * @access private
+     * @return {PgDeadLetterStore}
+     */
+    private deadLetterTable(): PgDeadLetterStore {
+        if (
+            !this.deadLetterStore ||
+            this.deadLetterStore.options.pgClient !== this.pgClient
+        ) {
+            this.deadLetterStore = new PgDeadLetterStore({
+                pgClient: this.pgClient,
+                logger: this.logger,
+            });
+        }
+
+        return this.deadLetterStore;
+    }
+
+    /**
+     * On reconnect event emitter
+     *
+     * @access private
+     * @return {Promise<void>}
+     */
+    private async onReconnect(): Promise<void> {
+        const channels = this.reListenChannels ?? this.knownChannels();
+
+        this.reListenChannels = undefined;
+
+        await Promise.all(channels.map(channel => this.listen(channel)));
+
+        this.emit(
+            'gap',
+            this.disconnectedAt ?? new Date(),
+            new Date(),
+            // shard connections keep listening while the main one is down,
+            // unless delivery is gated by locks held over the main one
+            this.options.singleListener
+                ? channels
+                : channels.filter(channel => !this.shardIndex(channel)),
+        );
+        this.disconnectedAt = undefined;
+        this.emit('reconnect', this.retry);
+        this.retry = 0;
+    }
+
+    /**
+     * Reconnect routine, used for implementation of auto-reconnecting db
+     * connection. Attempts are delayed by the backoff strategy.
+     *
+     * @access private
+     * @param {Error} [err] - error connection has been lost with, if any
+     * @return {number}
+     */
+    private reconnect(err?: Error): number {
+        if (this.reconnectTimer) {
+            // a single connection loss fires both 'error' and 'end':
+            // arming two competing reconnects would race two client
+            // recreations against each other
+            return this.reconnectTimer as any as number;
+        }
+
+        const attempt = this.retry + 1;
+        const delay = Math.max(0, this.backoff(attempt, err));
+
+        this.disconnectedAt ??= new Date();
+
+        this.emit('reconnecting', attempt, delay, err);
+        this.reconnectTimer = setTimeout(
+            async () => {
+                this.reconnectTimer = undefined;
+
+                if (this.options.retryLimit <= ++this.retry) {
+                    this.emitError(
+                        new Error(
+                            `Connect failed after ${this.retry} retries...`,
+                        ),
+                    );
+
+                    return this.close();
+                }
+
+                this.recreateClient();
+
+                try {
+                    await this.connect();
+                } catch {
+                    // failed attempt schedules the next one by itself
+                    return;
+                }
+
+                // re-listen only once the host is verified, standby would
+                // reject LISTEN anyway
+                await this.onReconnect();
+            },
+
+            delay,
+        );
+
+        return this.reconnectTimer as any as number;
+    }
+
+    /**
+     * Schedules next heartbeat, if heartbeat is turned on
+     *
+     * @access private
+     * @return {void}
+     */
+    private startHeartbeat(): void {
+        this.stopHeartbeat();
+
+        if (this.options.heartbeatInterval <= 0 || this.destroyed) {
+            return;
+        }
+
+        const timer: NodeJS.Timeout = setTimeout(async () => {
+            if (await this.heartbeat()) {
+                // heartbeat may have been stopped while in flight
+                if (this.heartbeatTimer === timer) {
+                    this.startHeartbeat();
+                }
+            }
+        }, this.options.heartbeatInterval);
+
+        this.heartbeatTimer = timer;
+    }
+
+    /**
+     * Cancels scheduled heartbeat
+     *
+     * @access private
+     * @return {void}
+     */
+    private stopHeartbeat(): void {
+        clearTimeout(this.heartbeatTimer);
+        this.heartbeatTimer = undefined;
+    }
+
+    /**
+     * Round-trips heartbeat query over the current connection and then over
+     * every shard connection. If it fails or does not complete in time,
+     * emits `'stale'` event and re-creates the failed connection. Resolves
+     * true if the main connection is alive.
      *
      * @access private
-     * @param {string[]} events - list of events to set handler for
-     * @param {(...args: any[]) => any} handler - handler reference
-     * @return {PgPubSub}
+     * @return {Promise<boolean>}
      */
-    private setOnceHandler(
-        events: string[],
-        handler: (...args: any[]) => any,
-    ): PgPubSub {
-        for (const event of events) {
-            // make sure we won't flood events with given handler,
-            // so do a cleanup first
-            this.clearListeners(event, handler);
-            // now set event handler
-            this.pgClient.once(event, handler);
+    private async heartbeat(): Promise<boolean> {
+        const client = this.pgClient;
+
+        try {
+            await this.ping(client);
+        } catch (err) {
+            if (client === this.pgClient && !this.destroyed) {
+                this.stopHeartbeat();
+                this.emit('stale', err as Error);
+                // a dead connection would not fire its events in time, so
+                // it is abandoned and re-created right away
+                this.abandonClient(client, err as Error);
+            }
+
+            return false;
         }
 
-        return this;
+        await Promise.all(
+            this.shardClients.map((shardClient, i) =>
+                this.heartbeatShard(i + 1, shardClient),
+            ),
+        );
+
+        return true;
     }
 
     /**
-     * Clears all similar handlers under given event
+     * Round-trips heartbeat query over a given shard connection, unless it
+     * is being re-connected. Stale shard connection is re-created on its
+     * own, other connections are not interrupted.
      *
-     * @param {string} event - event name
-     * @param {(...args: any) => any} handler - handler reference
+     * @access private
+     * @param {number} shard - shard index, starting from 1
+     * @param {PgClient} client - shard connection
+     * @return {Promise<void>}
      */
-    private clearListeners(
-        event: string,
-        handler: (...args: any[]) => any,
-    ): void {
-        this.pgClient
-            .listeners(event)
-            .forEach(
-                listener =>
-                    listener === handler && this.pgClient.off(event, handler),
-            );
+    private async heartbeatShard(
+        shard: number,
+        client: PgClient,
+    ): Promise<void> {
+        if (this.shardRetries[shard]) {
+            return;
+        }
+
+        try {
+            await this.ping(client);
+        } catch (err) {
+            if (this.shardClients[shard - 1] === client && !this.destroyed) {
+                this.emit('stale', err as Error, shard);
+                this.reconnectShard(shard, client, err as Error);
+                client.end().catch(() => undefined);
+            }
+        }
     }
 
     /**
-     * Database notification event handler
+     * Runs heartbeat query over a given connection, rejects if it fails or
+     * does not complete within `heartbeatTimeout`
      *
      * @access private
-     * @param {Notification} notification - database message data
+     * @param {PgClient} client - connection to check
      * @return {Promise<void>}
      */
-    private async onNotification(notification: Notification): Promise<void> {
-        const skip =
-            this.destroyed ||
-            RX_LOCK_CHANNEL.test(notification.channel) ||
-            (this.options.filtered &&
-                this.processId === notification.processId);
+    private async ping(client: PgClient): Promise<void> {
+        const timeout = this.options.heartbeatTimeout;
+        let timer: NodeJS.Timeout | undefined;
 
-        if (skip) {
-            // as we use the same connection with locks mechanism
-            // we should avoid pub/sub client to parse lock channels data
-            // and also filter same-notify-channel messages if filtered option
-            // is set to true
-            return;
+        try {
+            await Promise.race([
+                client.query('SELECT 1'),
+                new Promise<never>((_, reject) => {
+                    timer = setTimeout(() => {
+                        reject(
+                            new PgTimeoutError(
+                                `Heartbeat timed out after ${timeout}ms`,
+                                timeout,
+                            ),
+                        );
+                    }, timeout);
+                }),
+            ]);
+        } finally {
+            clearTimeout(timer);
         }
+    }
 
-        const lock = await this.lock(notification.channel);
+    /**
+     * Detaches re-connect handlers from a given client, schedules
+     * re-connect and closes the client without waiting for it
+     *
+     * @access private
+     * @param {PgClient} client - client to abandon
+     * @param {Error} err - reason the client is abandoned
+     * @return {void}
+     */
+    private abandonClient(client: PgClient, err: Error): void {
+        client.off('end', this.reconnect);
+        client.off('error', this.reconnect);
+        this.reconnect(err);
+        client.end().catch(() => undefined);
+    }
 
-        if (this.options.singleListener && !lock.isAcquired()) {
-            return; // we are not really a listener
+    /**
+     * Builds connection configs of the hosts to fail over between from
+     * `hosts` option or multi-host connection string. Returns empty list
+     * if there is a single host only.
+     *
+     * @access private
+     * @return {ClientConfig[]}
+     */
+    private hostConfigs(): ClientConfig[] {
+        const { hosts, connectionString } = this.options;
+
+        if (hosts?.length) {
+            // connection string would take precedence over host configs
+            return hosts.map(host => ({
+                ...this.options,
+                connectionString: undefined,
+                ...host,
+            }));
         }
 
-        const payload = unpack(notification.payload);
+        const strings = connectionString ? splitHosts(connectionString) : [];
 
-        this.emit('message', notification.channel, payload);
-        this.channels.emit(notification.channel, payload);
+        return strings.length > 1
+            ? strings.map(string => ({
+                  ...this.options,
+                  connectionString: string,
+              }))
+            : [];
     }
 
     /**
-     * Database notification event handler for execution lock
+     * Returns current host of the hosts to fail over between as
+     * `host:port`
      *
      * @access private
-     * @param {Notification} notification - database message data
-     * @return {Promise<void>}
+     * @return {string}
      */
-    private async onNotificationLockExec(
-        notification: Notification,
-    ): Promise<void> {
-        const skip =
-            this.destroyed ||
-            RX_LOCK_CHANNEL.test(notification.channel) ||
-            (this.options.filtered &&
-                this.processId === notification.processId);
+    private hostName(): string {
+        const { connectionString, host, port } = this.hosts[this.hostIndex];
 
-        if (skip) {
-            // as we use the same connection with locks mechanism
-            // we should avoid pub/sub client to parse lock channels data
-            // and also filter same-notify-channel messages if filtered option
-            // is set to true
+        if (connectionString) {
+            try {
+                const url = new URL(connectionString);
+
+                return `${url.hostname}:${url.port || 5432}`;
+            } catch {
+                return `#${this.hostIndex}`;
+            }
+        }
+
+        return `${host ?? 'localhost'}:${port ?? 5432}`;
+    }
+
+    /**
+     * Remembers current host as the active one, emitting `'failover'` event
+     * if it differs from the previously active one
+     *
+     * @access private
+     * @return {void}
+     */
+    private trackHost(): void {
+        if (!this.hosts.length) {
             return;
         }
 
-        let lock: AnyLock;
+        const host = this.hostName();
+        const previous = this.activeHost;
 
-        try {
-            lock = await this.createLock(
-                notification.channel,
-                signature(
-                    notification.processId,
-                    notification.channel,
-                    notification.payload,
-                ),
-            );
-        } catch (err) {
-            // lock bootstrap failed (e.g. missing ddl privileges); it is
-            // already logged loudly - skip this message rather than raise
-            // an unhandled rejection from the notification handler
-            this.emitError(err as Error);
+        this.activeHost = host;
 
-            return;
+        if (previous && previous !== host) {
+            this.emit('failover', host, previous);
         }
+    }
 
+    /**
+     * Checks if the database connected to is a standby in recovery, where
+     * LISTEN/NOTIFY is not possible. If the check itself fails, the host is
+     * treated as writable.
+     *
+     * @access private
+     * @return {Promise<boolean>}
+     */
+    private async isInRecovery(): Promise<boolean> {
         try {
-            await lock.acquire();
+            const {
+                rows: [{ recovery }],
+            } = await this.pgClient.query(
+                'SELECT pg_is_in_recovery() AS recovery',
+            );
 
-            if (this.options.singleListener && !lock.isAcquired()) {
-                return; // we are not really a listener
-            }
+            return !!recovery;
+        } catch {
+            return false;
+        }
+    }
 
-            const payload = unpack(notification.payload);
+    /**
+     * Returns index of the shard a given channel is listened over, where
+     * `0` is the main connection
+     *
+     * @access private
+     * @param {string} channel - channel name
+     * @return {number}
+     */
+    private shardIndex(channel: string): number {
+        return this.shardClients.length
+            ? shardOf(channel, this.shardClients.length + 1)
+            : 0;
+    }
 
-            this.emit('message', notification.channel, payload);
-            this.channels.emit(notification.channel, payload);
-        } finally {
-            // free local resources only: the lock record must stay in the
-            // database as a processed-message marker, otherwise a slower
-            // competing listener would re-insert it and process the same
-            // message again. Stale markers are cleaned up by TTL on
-            // subsequent unique lock acquisitions.
-            lock.dispose();
-        }
+    /**
+     * Returns connection a given channel is listened over
+     *
+     * @access private
+     * @param {string} channel - channel name
+     * @return {PgClient}
+     */
+    private listenClient(channel: string): PgClient {
+        const shard = this.shardIndex(channel);
+
+        return shard ? this.shardClients[shard - 1] : this.pgClient;
     }
 
     /**
-     * On reconnect event emitter
+     * Issues LISTEN for a given channel over its shard connection
      *
      * @access private
+     * @param {string} channel - channel name
      * @return {Promise<void>}
      */
-    private async onReconnect(): Promise<void> {
-        const channels = this.reListenChannels ?? Object.keys(this.locks);
+    private async listenOn(channel: string): Promise<void> {
+        await this.listenClient(channel).query(`LISTEN ${ident(channel)}`);
+        this.listening.add(channel);
+    }
 
-        this.reListenChannels = undefined;
+    /**
+     * Creates connection of a given shard, replacing the previous one.
+     * Shard connection is re-connected on its own, once lost.
+     *
+     * @access private
+     * @param {number} shard - shard index, starting from 1
+     * @return {PgClient}
+     */
+    private createShardClient(shard: number): PgClient {
+        const client = new Client(
+            this.hosts[this.hostIndex] ?? this.options,
+        ) as PgClient;
 
-        await Promise.all(channels.map(channel => this.listen(channel)));
+        client.on('error', (err: Error) => this.emitError(err));
+        client.once('end', () => this.reconnectShard(shard, client));
+        client.on('notification', this.onNotification);
+        this.shardClients[shard - 1] = client;
 
-        this.emit('reconnect', this.retry);
-        this.retry = 0;
+        return client;
     }
 
     /**
-     * Reconnect routine, used for implementation of auto-reconnecting db
-     * connection
+     * Connects shard connections, once per connection lifetime. Failed
+     * shards are re-connected on their own, so it never rejects.
      *
      * @access private
-     * @return {number}
+     * @return {Promise<void>}
      */
-    private reconnect(): number {
-        if (this.reconnectTimer) {
-            // a single connection loss fires both 'error' and 'end':
-            // arming two competing reconnects would race two client
-            // recreations against each other
-            return this.reconnectTimer as any as number;
+    private connectShards(): Promise<void> {
+        this.shardsConnection ??= Promise.all(
+            this.shardClients.map(async (client, i) => {
+                try {
+                    await client.connect();
+                } catch (err) {
+                    this.reconnectShard(i + 1, client, err as Error);
+                }
+            }),
+        ).then(() => undefined);
+
+        return this.shardsConnection;
+    }
+
+    /**
+     * Replaces lost connection of a given shard with a fresh one, which is
+     * connected after the backoff delay, and re-listens the shard channels
+     * over it. Channels of other shards are not interrupted. Emits
+     * `'reconnecting'`, `'gap'` and `'reconnect'` events with the shard
+     * index, and gives up after `retryLimit` attempts, as the main
+     * connection does.
+     *
+     * @access private
+     * @param {number} shard - shard index, starting from 1
+     * @param {PgClient} lost - lost shard connection
+     * @param {Error} [err] - error connection has been lost with, if any
+     * @return {void}
+     */
+    private reconnectShard(shard: number, lost: PgClient, err?: Error): void {
+        // failed connect fires both rejection and 'end'
+        if (this.destroyed || this.shardClients[shard - 1] !== lost) {
+            return;
         }
 
-        this.reconnectTimer = setTimeout(
-            async () => {
-                this.reconnectTimer = undefined;
+        const attempt = (this.shardRetries[shard] ?? 0) + 1;
+        // built-in strategies may keep state between attempts, so every
+        // shard backs off on its own
+        const backoff = (this.shardBackoffs[shard] ??= this.createBackoff());
+        const delay = Math.max(0, backoff(attempt, err));
+
+        lost.removeAllListeners();
+        this.shardRetries[shard] = attempt;
+        this.shardDisconnectedAt[shard] ??= new Date();
+        this.emit('reconnecting', attempt, delay, err, shard);
+
+        const client = this.createShardClient(shard);
+        const timer: NodeJS.Timeout = setTimeout(async () => {
+            this.shardTimers.delete(timer);
+
+            if (this.options.retryLimit <= attempt) {
+                this.emitError(
+                    new Error(
+                        `Shard ${shard} connect failed after ${attempt} ` +
+                            'retries...',
+                    ),
+                );
+
+                return this.close();
+            }
 
-                if (this.options.retryLimit <= ++this.retry) {
-                    this.emitError(
-                        new Error(
-                            `Connect failed after ${this.retry} retries...`,
-                        ),
-                    );
+            try {
+                await client.connect();
+            } catch (err) {
+                return this.reconnectShard(shard, client, err as Error);
+            }
 
-                    return this.close();
-                }
+            const channels = [...this.listening].filter(
+                channel => this.shardIndex(channel) === shard,
+            );
 
-                this.recreateClient();
-                this.setOnceHandler(['connect'], this.onReconnect);
+            try {
+                await Promise.all(
+                    channels.map(async channel => {
+                        await client.query(`LISTEN ${ident(channel)}`);
+                        await this.replay(channel);
+                    }),
+                );
+            } catch (err) {
+                // lost connection re-connects the shard once again
+                return this.emitError(err as Error);
+            }
 
-                try {
-                    await this.connect();
-                } catch {
-                    /* ignore */
+            const disconnectedAt = this.shardDisconnectedAt[shard];
+
+            this.shardRetries[shard] = 0;
+            this.shardDisconnectedAt[shard] = undefined;
+            this.emit(
+                'gap',
+                disconnectedAt ?? new Date(),
+                new Date(),
+                channels,
+                shard,
+            );
+            this.emit('reconnect', attempt, shard);
+        }, delay);
+
+        this.shardTimers.add(timer);
+    }
+
+    /**
+     * Builds backoff strategy for a single connection from the configured
+     * options. Custom strategy functions are used as is.
+     *
+     * @access private
+     * @return {PgBackoff}
+     */
+    private createBackoff(): PgBackoff {
+        return typeof this.options.backoff === 'function'
+            ? this.options.backoff
+            : backoffStrategy(
+                  this.options.backoff,
+                  this.options.retryDelay,
+                  this.options.retryMaxDelay,
+              );
+    }
+
+    /**
+     * Closes shard connections, preparing fresh ones for the next connect
+     *
+     * @access private
+     * @return {Promise<void>}
+     */
+    private async closeShards(): Promise<void> {
+        for (const timer of this.shardTimers) {
+            clearTimeout(timer);
+        }
+
+        this.shardTimers.clear();
+        this.shardsConnection = undefined;
+        this.shardRetries = [];
+        this.shardDisconnectedAt = [];
+        this.shardBackoffs = [];
+        this.listening.clear();
+
+        await Promise.all(
+            this.shardClients.map(async (client, i) => {
+                client.removeAllListeners();
+
+                if (!this.destroyed) {
+                    this.createShardClient(i + 1);
                 }
-            },
 
-            this.options.retryDelay,
+                await client.end();
+            }),
         );
+    }
 
-        return this.reconnectTimer as any as number;
+    /**
+     * Returns channels this instance listens or waits to listen: listened
+     * channels are tracked apart from the locks, as there are no channel
+     * locks in execution lock mode, while in single listener mode channels
+     * whose locks are held by others are not listened yet.
+     *
+     * @access private
+     * @return {string[]}
+     */
+    private knownChannels(): string[] {
+        return [...new Set([...this.listening, ...Object.keys(this.locks)])];
     }
 
     /**
@@ -808,15 +3126,29 @@ export class PgPubSub extends EventEmitter {
      * @return {void}
      */
     private recreateClient(): void {
-        const channels = Object.keys(this.locks);
-
-        for (const channel of channels) {
+        // after a failed attempt locks are already gone, while channels
+        // are still waiting to be re-listened
+        const channels = [
+            ...new Set([
+                ...(this.reListenChannels ?? []),
+                ...this.knownChannels(),
+            ]),
+        ];
+
+        for (const channel of Object.keys(this.locks)) {
             this.locks[channel].dispose();
             delete this.locks[channel];
         }
 
         this.client.removeAllListeners();
-        this.client = new Client(this.options) as PgClient;
+
+        if (this.hosts.length) {
+            this.hostIndex = (this.hostIndex + 1) % this.hosts.length;
+        }
+
+        this.client = new Client(
+            this.hosts[this.hostIndex] ?? this.options,
+        ) as PgClient;
         this.attachClientHandlers();
 
         // preserve known channels, so onReconnect() re-creates their locks
@@ -834,7 +3166,20 @@ export class PgPubSub extends EventEmitter {
      */
     private async lock(channel: string): Promise<AnyLock> {
         if (!this.locks[channel]) {
-            const lock = await this.createLock(channel);
+            // concurrent calls for the same channel (e.g. subscriptions
+            // made in parallel) must share a single lock, otherwise the
+            // overwritten one would keep its timers forever
+            let creation = this.lockCreations.get(channel);
+
+            if (!creation) {
+                creation = this.createLock(channel);
+                this.lockCreations.set(channel, creation);
+                creation
+                    .finally(() => this.lockCreations.delete(channel))
+                    .catch(() => undefined);
+            }
+
+            const lock = await creation;
 
             if (this.destroyed) {
                 // destroy() raced this creation: free local resources and
@@ -861,18 +3206,15 @@ export class PgPubSub extends EventEmitter {
         channel: string,
         uniqueKey?: string,
     ): Promise<AnyLock> {
-        if (this.options.singleListener) {
-            const lock = new PgIpLock(
-                channel,
-                {
-                    pgClient: this.pgClient,
-                    logger: this.logger,
-                    acquireInterval: this.options.acquireInterval,
-                },
-                uniqueKey,
-            );
-
-            await lock.init();
+        // broadcast requests and topic channels are listened by every
+        // instance: topic patterns differ between instances, so a single
+        // lock holder would starve the others
+        if (
+            this.options.singleListener &&
+            channel !== GATHER_CHANNEL &&
+            channel !== this.options.topicChannel
+        ) {
+            const lock = await this.buildLock(channel, uniqueKey);
 
             if (!uniqueKey) {
                 lock.onRelease(chan => this.listen(chan));
@@ -884,6 +3226,41 @@ export class PgPubSub extends EventEmitter {
         return new NoLock();
     }
 
+    /**
+     * Builds inter-process lock of a given channel with configured lock
+     * factory or strategy, and initializes it
+     *
+     * @access private
+     * @param {string} channel
+     * @param {string} [uniqueKey]
+     * @return {Promise<AnyLock>}
+     */
+    private async buildLock(
+        channel: string,
+        uniqueKey?: string,
+    ): Promise<AnyLock> {
+        const options = {
+            pgClient: this.pgClient,
+            logger: this.logger,
+            acquireInterval: this.options.acquireInterval,
+            ackTimeout: this.options.ackTimeout,
+        };
+        const { lockFactory, lockStrategy } = this.options;
+        const lock: AnyLock = lockFactory
+            ? await lockFactory(channel, {
+                  uniqueKey,
+                  pgClient: this.pgClient,
+                  logger: this.logger,
+              })
+            : lockStrategy === 'advisory'
+              ? new PgAdvisoryLock(channel, options)
+              : new PgIpLock(channel, options, uniqueKey);
+
+        await lock.init();
+
+        return lock;
+    }
+
     /**
      * Releases all acquired locks in current session
      *
@@ -935,10 +3312,10 @@ export class PgPubSub extends EventEmitter {
         try {
             const {
                 rows: [{ pid }],
-            } = await this.pgClient.query(`
-                SELECT pid FROM pg_stat_activity
-                WHERE application_name = ${literal(this.pgClient.appName)}
-            `);
+            } = await this.pgClient.query(
+                'SELECT pid FROM pg_stat_activity WHERE application_name = $1',
+                [this.pgClient.appName],
+            );
             this.processId = +pid;
         } catch {
             /* ignore */
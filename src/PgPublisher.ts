@@ -0,0 +1,416 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { EventEmitter } from 'node:events';
+import {
+    FRAGMENT_KEY,
+    MAX_PAYLOAD_LENGTH,
+    NOTIFY_MANY_STATEMENT,
+    NOTIFY_STATEMENT,
+    PAYLOAD_KEY,
+    TOPIC_KEY,
+} from './constants.js';
+import { fragment, pack } from './helpers.js';
+import { PgPayloadStore } from './PgPayloadStore.js';
+import { PgChannelLog } from './PgChannelLog.js';
+import {
+    type AnyJson,
+    type AnyLogger,
+    DefaultOptions,
+    type notify,
+    type PgNotifyOptions,
+    type PgOutgoingMessage,
+    type PgPublisherOptions,
+    type PgQueryable,
+} from './types/index.js';
+
+/**
+ * Maximum number of payload bytes carried by a single fragment of a chunked
+ * message: base64 encoding inflates it by 4/3 and the fragment envelope
+ * takes the rest of the NOTIFY payload limit
+ */
+const FRAGMENT_SIZE = Math.floor((MAX_PAYLOAD_LENGTH - 400) / 4) * 3;
+
+// PgPublisher Events
+// oxlint-disable-next-line no-unsafe-declaration-merging
+export declare interface PgPublisher {
+    /**
+     * Sets `'notify'` event handler
+     *
+     * @param {'notify'} event
+     * @param {typeof notify} listener
+     * @return {PgPublisher}
+     */
+    on(event: 'notify', listener: typeof notify): this;
+
+    /**
+     * Sets `'notify'` event handler, which fired only one single time
+     *
+     * @param {'notify'} event
+     * @param {typeof notify} listener
+     * @return {PgPublisher}
+     */
+    once(event: 'notify', listener: typeof notify): this;
+}
+
+/**
+ * Lightweight publisher-only counterpart of PgPubSub: publishes messages
+ * over a given connection pool, never bootstrapping the lock functions or
+ * opening a LISTEN connection. Large payloads are handled the same way as
+ * by PgPubSub (see `chunked`, `payloadStore` and `durable` options), so
+ * PgPubSub listeners receive them transparently. The only exception to
+ * the above is the payload and durable log tables: they are created in
+ * the lock schema (once per pool) on the first publish which needs them,
+ * so the publisher may run before any listener does. PgPubSub extends it,
+ * publishing with the listening connection unless `publishPool` is given.
+ *
+ * @example
+ * ~~~typescript
+ * import { Pool } from 'pg';
+ * import { PgPublisher } from '@imqueue/pg-pubsub';
+ *
+ * const publisher = new PgPublisher({
+ *     publishPool: new Pool({ connectionString: 'postgres://...' }),
+ * });
+ *
+ * await publisher.notify('HelloChannel', { some: { json: 'object' } });
+ * ~~~
+ */
+export class PgPublisher extends EventEmitter {
+    public readonly options: PgPublisherOptions;
+
+    private publishPool?: PgQueryable;
+    private publishStore?: PgPayloadStore;
+    private publishLog?: PgChannelLog;
+
+    /**
+     * @constructor
+     * @param {PgPublisherOptions} options - options
+     * @param {AnyLogger} logger - logger
+     */
+    public constructor(
+        options: Partial<PgPublisherOptions>,
+        public readonly logger: AnyLogger = console,
+    ) {
+        super();
+
+        this.options = { ...DefaultOptions, ...options };
+    }
+
+    /**
+     * Performs NOTIFY to a given channel with a given payload. Payloads
+     * exceeding postgres limit are stored in the payload table if
+     * payloadStore option is set to true, or sent as a sequence of
+     * fragments if chunked option is set to true, otherwise are rejected
+     * with `RangeError`. If client option is given, the message is written
+     * with that client, e.g. within caller's transaction.
+     *
+     * @param {string} channel - channel to publish to
+     * @param {AnyJson} payload - payload to publish for subscribers
+     * @param {PgNotifyOptions} [options] - notify options
+     * @return {Promise<void>}
+     */
+    public async notify(
+        channel: string,
+        payload: AnyJson,
+        options: PgNotifyOptions = {},
+    ): Promise<void> {
+        const client = options.client ?? this.publishClient();
+        const packed = pack(payload, this.logger);
+
+        if (this.options.durable) {
+            await this.publishLogged(channel, packed, client);
+        } else if (Buffer.byteLength(packed, 'utf8') > MAX_PAYLOAD_LENGTH) {
+            if (this.options.payloadStore) {
+                const id = await this.publishingStore().store(
+                    channel,
+                    packed,
+                    client,
+                );
+
+                await this.send(channel, pack({ [PAYLOAD_KEY]: id }), client);
+            } else if (!this.options.chunked) {
+                throw PgPublisher.oversized(channel);
+            } else {
+                for (const part of fragment(packed, FRAGMENT_SIZE)) {
+                    await this.send(
+                        channel,
+                        pack({ [FRAGMENT_KEY]: { ...part } }, this.logger),
+                        client,
+                    );
+                }
+            }
+        } else {
+            await this.send(channel, packed, client);
+        }
+
+        this.emit('notify', channel, payload);
+    }
+
+    /**
+     * Publishes all given messages in order with a single `pg_notify()`
+     * statement, so either all of them are sent, or none. Oversized
+     * payloads are handled the same way as by `notify()`, or the whole
+     * batch is rejected with `RangeError` before anything is sent.
+     *
+     * Note, that postgres delivers identical notifications (same channel
+     * and payload) sent within a single transaction only once, so
+     * duplicate messages of a batch are sent and reported by `'notify'`
+     * event once as well (unless in durable mode, where every message is
+     * a distinct log entry). Use separate `notify()` calls outside of
+     * a transaction to deliver identical messages several times.
+     *
+     * @param {PgOutgoingMessage[]} messages - messages to publish
+     * @param {PgNotifyOptions} [options] - notify options
+     * @return {Promise<void>}
+     */
+    public async notifyMany(
+        messages: PgOutgoingMessage[],
+        options: PgNotifyOptions = {},
+    ): Promise<void> {
+        const { durable, payloadStore, chunked } = this.options;
+        const packed = messages.map(({ channel, payload }) => {
+            const body = pack(payload, this.logger);
+
+            if (
+                !durable &&
+                !payloadStore &&
+                !chunked &&
+                Buffer.byteLength(body, 'utf8') > MAX_PAYLOAD_LENGTH
+            ) {
+                throw PgPublisher.oversized(channel);
+            }
+
+            return body;
+        });
+
+        if (!messages.length) {
+            return;
+        }
+
+        const client = options.client ?? this.publishClient();
+        const batch: Array<[string, string]> = [];
+        const sent = new Set<string>();
+        const collapsed = new Set<number>();
+
+        if (durable) {
+            // entries are logged and announced within the same statement
+            await this.publishingLog().appendMany(
+                messages.map(({ channel }) => channel),
+                packed,
+                client,
+            );
+        } else {
+            for (const [i, { channel }] of messages.entries()) {
+                const key = JSON.stringify([channel, packed[i]]);
+
+                if (sent.has(key)) {
+                    // would be delivered once by postgres anyway
+                    collapsed.add(i);
+                } else if (
+                    Buffer.byteLength(packed[i], 'utf8') <= MAX_PAYLOAD_LENGTH
+                ) {
+                    sent.add(key);
+                    batch.push([channel, packed[i]]);
+                } else if (payloadStore) {
+                    const id = await this.publishingStore().store(
+                        channel,
+                        packed[i],
+                        client,
+                    );
+
+                    batch.push([channel, pack({ [PAYLOAD_KEY]: id })]);
+                } else {
+                    for (const part of fragment(packed[i], FRAGMENT_SIZE)) {
+                        batch.push([
+                            channel,
+                            pack({ [FRAGMENT_KEY]: { ...part } }, this.logger),
+                        ]);
+                    }
+                }
+            }
+        }
+
+        if (batch.length) {
+            await client.query({
+                name: NOTIFY_MANY_STATEMENT,
+                text:
+                    'SELECT PG_NOTIFY(channel, payload) ' +
+                    'FROM UNNEST($1::TEXT[], $2::TEXT[]) AS message (channel, payload)',
+                values: [
+                    batch.map(([channel]) => channel),
+                    batch.map(([, body]) => body),
+                ],
+            });
+        }
+
+        for (const [i, { channel, payload }] of messages.entries()) {
+            if (!collapsed.has(i)) {
+                this.emit('notify', channel, payload);
+            }
+        }
+    }
+
+    /**
+     * Publishes given payload under a given dot-separated topic routing
+     * key, e.g. `'orders.eu.created'`. All topic messages are sent over
+     * a single physical channel (see `topicChannel` option) and delivered
+     * to channel listeners of the matching topic patterns, see
+     * `listenTopic()`.
+     *
+     * @param {string} topic - topic routing key
+     * @param {AnyJson} payload - payload to publish for subscribers
+     * @param {PgNotifyOptions} [options] - notify options
+     * @return {Promise<void>}
+     */
+    public async publish(
+        topic: string,
+        payload: AnyJson,
+        options?: PgNotifyOptions,
+    ): Promise<void> {
+        await this.notify(
+            this.options.topicChannel,
+            { [TOPIC_KEY]: topic, payload },
+            options,
+        );
+    }
+
+    /**
+     * Appends already packed payload to the durable channel log, which
+     * sends NOTIFY with the assigned log sequence within the same
+     * statement, so the entry is never logged without being sent. The
+     * payload travels along with the sequence if it fits postgres limit,
+     * otherwise listeners fetch it from the log, so no chunking or payload
+     * store is involved.
+     *
+     * @access private
+     * @param {string} channel - channel to publish to
+     * @param {string} packed - serialized payload
+     * @param {PgQueryable} client - client to publish with
+     * @return {Promise<void>}
+     */
+    private async publishLogged(
+        channel: string,
+        packed: string,
+        client: PgQueryable,
+    ): Promise<void> {
+        await this.publishingLog().append(channel, packed, client);
+    }
+
+    /**
+     * Builds error rejecting payload which exceeds postgres limit
+     *
+     * @access private
+     * @param {string} channel - channel to publish to
+     * @return {RangeError}
+     */
+    private static oversized(channel: string): RangeError {
+        return new RangeError(
+            `NOTIFY payload for channel '${channel}' exceeds the ` +
+                `postgres limit of ${MAX_PAYLOAD_LENGTH} bytes`,
+        );
+    }
+
+    /**
+     * Sends NOTIFY with already packed payload to a given channel. Channel
+     * and payload are passed as bound parameters of a prepared statement,
+     * so nothing is interpolated into SQL.
+     *
+     * @access private
+     * @param {string} channel - channel to publish to
+     * @param {string} packed - serialized payload
+     * @param {PgQueryable} client - client to send with
+     * @return {Promise<void>}
+     */
+    private async send(
+        channel: string,
+        packed: string,
+        client: PgQueryable,
+    ): Promise<void> {
+        await client.query({
+            name: NOTIFY_STATEMENT,
+            text: 'SELECT PG_NOTIFY($1, $2)',
+            values: [channel, packed],
+        });
+    }
+
+    /**
+     * Returns connection messages are published with, unless client option
+     * is given. Pool factory is resolved on the first publish only, so
+     * stores bound to the pool are not re-created on every publish.
+     *
+     * @return {PgQueryable}
+     */
+    protected publishClient(): PgQueryable {
+        const { publishPool } = this.options;
+
+        if (!publishPool) {
+            throw new TypeError('PgPublisher: publishPool option is required');
+        }
+
+        return (this.publishPool ??=
+            typeof publishPool === 'function' ? publishPool() : publishPool);
+    }
+
+    /**
+     * Returns payload store bound to the current publishing connection
+     *
+     * @access private
+     * @return {PgPayloadStore}
+     */
+    private publishingStore(): PgPayloadStore {
+        const pgClient = this.publishClient();
+
+        if (
+            !this.publishStore ||
+            this.publishStore.options.pgClient !== pgClient
+        ) {
+            this.publishStore = new PgPayloadStore({
+                pgClient,
+                logger: this.logger,
+                ttl: this.options.payloadTtl,
+            });
+        }
+
+        return this.publishStore;
+    }
+
+    /**
+     * Returns durable channel log bound to the current publishing
+     * connection
+     *
+     * @access private
+     * @return {PgChannelLog}
+     */
+    private publishingLog(): PgChannelLog {
+        const pgClient = this.publishClient();
+
+        if (!this.publishLog || this.publishLog.options.pgClient !== pgClient) {
+            this.publishLog = new PgChannelLog({
+                pgClient,
+                logger: this.logger,
+                ttl: this.options.durableTtl,
+            });
+        }
+
+        return this.publishLog;
+    }
+}
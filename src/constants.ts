@@ -25,6 +25,7 @@ export const SHUTDOWN_TIMEOUT = +(
 );
 export const RETRY_DELAY = 100;
 export const RETRY_LIMIT = Infinity;
+export const RETRY_MAX_DELAY = 30000;
 export const IS_ONE_PROCESS = true;
 export const ACQUIRE_INTERVAL = 30000;
 export const EXECUTION_LOCK = !!+(process.env.PG_PUBSUB_EXECUTION_LOCK || 0);
@@ -35,3 +36,138 @@ export const EXECUTION_LOCK = !!+(process.env.PG_PUBSUB_EXECUTION_LOCK || 0);
  * lock acquisitions
  */
 export const UNIQUE_LOCK_TTL = 3600;
+
+/**
+ * Time (milliseconds) after which a claimed, but not acknowledged message
+ * becomes claimable again by another execution lock listener
+ */
+export const ACK_TIMEOUT = 30000;
+
+/**
+ * Number of failed handling attempts after which a message is parked as
+ * a dead letter, if dead-lettering is enabled
+ */
+export const MAX_ATTEMPTS = 5;
+
+/**
+ * Time (milliseconds) to wait for all fragments of a chunked message to
+ * arrive; partially received messages are dropped after that
+ */
+export const FRAGMENT_TIMEOUT = 30000;
+
+/**
+ * Envelope key marking NOTIFY payloads which carry a single fragment of a
+ * chunked message
+ */
+export const FRAGMENT_KEY = '__pgFragment__';
+
+/**
+ * Time-to-live (seconds) of large message bodies stored in the payload
+ * table; expired bodies are cleaned up on subsequent stores
+ */
+export const PAYLOAD_TTL = 3600;
+
+/**
+ * Minimal time (milliseconds) between expired stored bodies cleanups done
+ * by a single payload store, so the payload table is not scanned on every
+ * store
+ */
+export const PAYLOAD_CLEANUP_INTERVAL = 60000;
+
+/**
+ * Envelope key marking NOTIFY payloads which carry a reference to a message
+ * body stored in the payload table
+ */
+export const PAYLOAD_KEY = '__pgPayload__';
+
+/**
+ * Time-to-live (seconds) of durable channel log entries; expired entries
+ * are cleaned up on subsequent appends, so subscribers which stay
+ * disconnected longer will not get them replayed
+ */
+export const LOG_TTL = 86400;
+
+/**
+ * Time (milliseconds) a delivered durable channel log entry waits for the
+ * entries with lower sequence numbers, which may still be in flight,
+ * before the subscriber cursor moves over it
+ */
+export const LOG_SETTLE_DELAY = 1000;
+
+/**
+ * Envelope key marking NOTIFY payloads which carry the sequence number of
+ * a durable channel log entry
+ */
+export const LOG_KEY = '__pgLog__';
+
+/**
+ * Maximum byte length of a NOTIFY payload postgres accepts (with default
+ * server configuration)
+ */
+export const MAX_PAYLOAD_LENGTH = 8000;
+
+/**
+ * Default name of the physical channel topic messages are published over
+ */
+export const TOPIC_CHANNEL = 'pg_pubsub_topics';
+
+/**
+ * Envelope key marking messages which carry a topic routing key
+ */
+export const TOPIC_KEY = '__pgTopic__';
+
+/**
+ * Default number of messages buffered by a message iterator, while its
+ * consumer is busy; the oldest messages are dropped beyond that
+ */
+export const ITERATOR_HIGH_WATER_MARK = 1000;
+
+/**
+ * Envelope key marking messages which carry a request correlation id
+ */
+export const REQUEST_KEY = '__pgRequest__';
+
+/**
+ * Envelope key marking messages which carry a reply correlation id
+ */
+export const REPLY_KEY = '__pgReply__';
+
+/**
+ * Prefix of per-instance channels replies to requests are sent over
+ */
+export const REPLY_CHANNEL_PREFIX = 'pg_pubsub_reply_';
+
+/**
+ * Default time (milliseconds) to wait for a reply to a request
+ */
+export const REQUEST_TIMEOUT = 30000;
+
+/**
+ * Channel scatter-gather requests are broadcast over to every responder
+ */
+export const GATHER_CHANNEL = 'pg_pubsub_gather';
+
+/**
+ * Default time (milliseconds) to collect replies to a scatter-gather request
+ */
+export const GATHER_TIMEOUT = 5000;
+
+/**
+ * Name of the prepared statement single messages are published with
+ */
+export const NOTIFY_STATEMENT = 'pg_pubsub_notify';
+
+/**
+ * Name of the prepared statement message batches are published with
+ */
+export const NOTIFY_MANY_STATEMENT = 'pg_pubsub_notify_many';
+
+/**
+ * Default time (milliseconds) to wait for a heartbeat query round-trip
+ */
+export const HEARTBEAT_TIMEOUT = 5000;
+
+/**
+ * Prefix of the lock channels leader elections are held on
+ */
+export const ELECTION_CHANNEL_PREFIX = 'pg_pubsub_election:';
@@ -21,7 +21,17 @@
  */
 export * from './helpers.js';
 export * from './PgPubSub.js';
+export * from './PgPublisher.js';
 export * from './PgIpLock.js';
+export * from './PgAdvisoryLock.js';
 export * from './NoLock.js';
+export * from './PgFragmentAssembler.js';
+export * from './PgPayloadStore.js';
+export * from './PgChannelLog.js';
+export * from './PgDeadLetterStore.js';
+export * from './PgTimeoutError.js';
+export * from './PgChannel.js';
+export * from './PgMessageIterator.js';
+export * from './PgElection.js';
 export * from './types/index.js';
 export * from './constants.js';
@@ -55,6 +55,29 @@ export interface AnyLock {
      */
     destroy(): Promise<void>;
 
+    /**
+     * Implements processed-message acknowledgement asynchronously (optional).
+     * Used on per-message (unique) locks once the message has been handled,
+     * so that it is never re-delivered
+     */
+    ack?(): Promise<void>;
+
+    /**
+     * Implements processed-message verification (optional): must return true
+     * if the message has already been acknowledged by any lock holder. Locks
+     * without it are treated as never processed, so a message whose lock
+     * is held elsewhere is scheduled for re-delivery
+     */
+    isProcessed?(): boolean;
+
+    /**
+     * Fencing token of the current lock acquisition (optional): must grow
+     * monotonically with every successful acquire, so writes made by
+     * a stale holder could be rejected downstream. Undefined while the lock
+     * is not acquired, or if the lock implementation provides no tokens.
+     */
+    readonly fencingToken?: number;
+
     /**
      * Implements lock release handler upset
      *
@@ -0,0 +1,37 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type AnyJson } from './AnyJson.js';
+
+/**
+ * Options accepted by `PgPubSub.channel()`
+ */
+export interface PgChannelOptions<T = AnyJson> {
+    /**
+     * Payload validator (optional). Type guard, which should return true if
+     * given payload is a valid channel message, false or throw - otherwise.
+     * Validation runs on both publish and receipt. Channel payload type is
+     * inferred from the guard, if not given explicitly.
+     *
+     * @type {(payload: unknown) => payload is T}
+     */
+    validate?: (payload: unknown) => payload is T;
+}
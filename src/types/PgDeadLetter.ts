@@ -0,0 +1,77 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type AnyJson } from './AnyJson.js';
+
+/**
+ * Represents a message parked in the dead-letter table after its handlers
+ * kept failing
+ */
+export interface PgDeadLetter {
+    /**
+     * Dead letter identifier, used to re-drive the message
+     *
+     * @type {number}
+     */
+    id: number;
+
+    /**
+     * Channel the message has been originally published to
+     *
+     * @type {string}
+     */
+    channel: string;
+
+    /**
+     * Original message payload
+     *
+     * @type {AnyJson}
+     */
+    payload: AnyJson;
+
+    /**
+     * Message of the last handling error
+     *
+     * @type {string}
+     */
+    error: string;
+
+    /**
+     * Number of failed handling attempts
+     *
+     * @type {number}
+     */
+    attempts: number;
+
+    /**
+     * Application name of the instance which gave up handling the message
+     *
+     * @type {string}
+     */
+    app: string;
+
+    /**
+     * Time the message has been dead-lettered at
+     *
+     * @type {Date}
+     */
+    createdAt: Date;
+}
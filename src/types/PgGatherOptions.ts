@@ -0,0 +1,43 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+/**
+ * Options accepted by `PgPubSub.gather()`
+ */
+export interface PgGatherOptions {
+    /**
+     * Time in milliseconds to collect replies for (optional). Once passed,
+     * gathering resolves with the replies collected so far. By default is
+     * `5000ms`.
+     *
+     * @type {number}
+     */
+    timeout?: number;
+
+    /**
+     * Number of replies to wait for (optional). If set, gathering resolves
+     * as soon as that many replies are collected, without waiting for the
+     * timeout.
+     *
+     * @type {number}
+     */
+    expected?: number;
+}
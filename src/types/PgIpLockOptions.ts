@@ -50,4 +50,13 @@ export interface PgIpLockOptions {
      * @type {number}
      */
     acquireInterval: number;
+
+    /**
+     * Visibility timeout of unclaimed messages. See
+     * [[PgPubSubOptions.ackTimeout]].
+     *
+     * @see PgPubSubOptions.ackTimeout
+     * @type {number}
+     */
+    ackTimeout?: number;
 }
@@ -0,0 +1,60 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type AnyLock } from './AnyLock.js';
+import { type AnyLogger } from './AnyLogger.js';
+import { type PgClient } from './PgClient.js';
+
+/**
+ * Details passed to a lock factory along with the channel to lock
+ */
+export interface PgLockFactoryContext {
+    /**
+     * Unique key of the message to lock in execution lock mode, undefined
+     * for channel locks
+     *
+     * @type {string}
+     */
+    uniqueKey?: string;
+
+    /**
+     * Current underlying PostgreSQL client of PgPubSub instance
+     *
+     * @type {PgClient}
+     */
+    pgClient: PgClient;
+
+    /**
+     * Logger of PgPubSub instance
+     *
+     * @type {AnyLogger}
+     */
+    logger: AnyLogger;
+}
+
+/**
+ * Builds lock of a given channel, or of a given message in execution lock
+ * mode. Returned lock is initialized by PgPubSub.
+ */
+export type PgLockFactory = (
+    channel: string,
+    context: PgLockFactoryContext,
+) => AnyLock | Promise<AnyLock>;
@@ -0,0 +1,52 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type PgMessageMeta } from './PgMessageMeta.js';
+
+/**
+ * Message handling context passed to message and channel listeners as the
+ * last argument. In execution lock mode, or with dead-lettering enabled,
+ * it settles the message: the message is acknowledged once all the
+ * listeners complete (returned promises are awaited), or released for
+ * re-delivery if any of them fails. Explicit `ack()` or `nack()` call
+ * overrides the outcome. In other modes these calls have no effect.
+ */
+export interface PgMessageContext {
+    /**
+     * Delivery details of the message
+     *
+     * @type {PgMessageMeta}
+     */
+    readonly meta: PgMessageMeta;
+
+    /**
+     * Marks the message as successfully processed
+     */
+    ack(): void;
+
+    /**
+     * Marks the message as failed, so it becomes claimable again. Given
+     * reason is recorded if the message ends up dead-lettered.
+     *
+     * @param {Error} [reason] - failure reason
+     */
+    nack(reason?: Error): void;
+}
@@ -0,0 +1,75 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+/**
+ * Delivery details of a received message, exposed to listeners as `meta`
+ * property of the message handling context
+ */
+export interface PgMessageMeta {
+    /**
+     * Identifier of the database backend process which sent the
+     * notification, undefined for messages replayed from durable log
+     *
+     * @type {number}
+     */
+    processId?: number;
+
+    /**
+     * Time the notification has been received at
+     *
+     * @type {Date}
+     */
+    receivedAt: Date;
+
+    /**
+     * Raw payload string as received (re-assembled for chunked messages),
+     * or the logged message body for messages replayed from durable log
+     *
+     * @type {string}
+     */
+    raw: string;
+
+    /**
+     * Raw payload size in bytes
+     *
+     * @type {number}
+     */
+    size: number;
+
+    /**
+     * True if this instance held the channel or execution lock while
+     * handling the message, false - if there was no lock to hold (multiple
+     * listeners mode)
+     *
+     * @type {boolean}
+     */
+    locked: boolean;
+
+    /**
+     * Fencing token of the channel or execution lock held while handling
+     * the message, undefined if there was no lock to hold, or the lock
+     * implementation provides no tokens. Pass it along with downstream
+     * writes to let them reject ones made by a stale lock holder.
+     *
+     * @type {number}
+     */
+    fencingToken?: number;
+}
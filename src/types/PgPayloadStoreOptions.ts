@@ -0,0 +1,52 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type AnyLogger } from './AnyLogger.js';
+import { type PgQueryable } from './PgQueryable.js';
+
+/**
+ * Options accepted by PgPayloadStore constructor.
+ */
+export interface PgPayloadStoreOptions {
+    /**
+     * PostgreSQL database connection client or pool, see [[PgQueryable]],
+     * used to store and fetch message bodies.
+     *
+     * @type {PgQueryable}
+     */
+    pgClient: PgQueryable;
+
+    /**
+     * Logger to be used for log messages produced by the store. Any
+     * logger which follows [[AnyLogger]] interface is suitable.
+     *
+     * @type {AnyLogger}
+     */
+    logger: AnyLogger;
+
+    /**
+     * Time-to-live of stored message bodies. See [[PgPubSubOptions.payloadTtl]].
+     *
+     * @see PgPubSubOptions.payloadTtl
+     * @type {number}
+     */
+    ttl: number;
+}
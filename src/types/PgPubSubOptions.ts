@@ -21,12 +21,25 @@
  */
 import { Client, type ClientConfig } from 'pg';
 import {
+    ACK_TIMEOUT,
     ACQUIRE_INTERVAL,
     EXECUTION_LOCK,
+    FRAGMENT_TIMEOUT,
+    HEARTBEAT_TIMEOUT,
     IS_ONE_PROCESS,
+    LOG_SETTLE_DELAY,
+    LOG_TTL,
+    MAX_ATTEMPTS,
+    PAYLOAD_TTL,
     RETRY_DELAY,
     RETRY_LIMIT,
+    RETRY_MAX_DELAY,
+    TOPIC_CHANNEL,
 } from '../constants.js';
+import { type PgBackoff, type PgBackoffStrategy } from './PgBackoff.js';
+import { type PgLockFactory } from './PgLockFactory.js';
+import { type PgLockStrategy } from './PgLockStrategy.js';
+import { type PgPublishPool } from './PgQueryable.js';
 
 /**
  * Options accepted as option argument of PgPubSub constructor.
@@ -46,12 +59,76 @@ export interface PgPubSubOptions extends ClientConfig {
     pgClient?: Client;
 
     /**
-     * Specifies delay in milliseconds between re-connection retries
+     * Ordered list of connection configs of the hosts to fail over between
+     * (optional). Each config is merged over these options. Multi-host
+     * `connectionString`, like `postgres://u:p@host1,host2:5433/db`, is
+     * treated the same way. On each re-connect the next host is tried, and
+     * the host is accepted only if it is writable (not in recovery), as
+     * LISTEN/NOTIFY does not work on standbys. Whenever another host becomes
+     * active, `'failover'` event is emitted.
+     *
+     * @type {ClientConfig[]}
+     */
+    hosts?: ClientConfig[];
+
+    /**
+     * Connection used exclusively for publishing (optional), usually a
+     * `pg.Pool`, or a function returning it, which is called once, on the
+     * first publish. When given, NOTIFY traffic (as well as stored bodies and
+     * durable log entries) does not compete with LISTEN and lock queries
+     * on the listening connection. Note, `filtered` option does not
+     * recognize messages published this way as self-emitted. By default
+     * everything is published with the listening connection.
+     *
+     * @type {PgPublishPool}
+     */
+    publishPool?: PgPublishPool;
+
+    /**
+     * Number of listener connections channels are spread across with
+     * consistent hashing. Each channel is listened over a single one of
+     * them, so busy channels do not share a connection throughput, and a
+     * lost connection interrupts only a share of the channels: it is
+     * re-connected and its channels are re-listened on its own. Locks and
+     * publishing stay on the main connection. By default is `1`.
+     *
+     * @type {number}
+     */
+    shards: number;
+
+    /**
+     * Specifies delay in milliseconds between re-connection retries. With
+     * non-constant backoff strategy it is the base (initial) delay.
      *
      * @type {number}
      */
     retryDelay: number;
 
+    /**
+     * Specifies maximum delay in milliseconds between re-connection retries
+     * computed by the built-in backoff strategies. By default is `30000ms`.
+     *
+     * @type {number}
+     */
+    retryMaxDelay: number;
+
+    /**
+     * Re-connection backoff strategy: either a name of a built-in one, or
+     * a custom function `(attempt, lastError) => ms`. Built-in strategies
+     * are `'constant'` (waits `retryDelay` each time), `'capped'` (grows the
+     * delay by `retryDelay` each time), `'exponential'` (doubles the delay
+     * starting with `retryDelay`) and `'decorrelatedJitter'` (randomizes
+     * the delay between `retryDelay` and three times the previous one, so
+     * reconnecting clients do not stampede the database). Only the latter
+     * is randomized: with the others, clients which lost connection at the
+     * same time re-connect at the same time as well. Non-constant built-in
+     * strategies are capped by `retryMaxDelay`. Every connection (main and
+     * shard ones) backs off on its own. By default is `'constant'`.
+     *
+     * @type {PgBackoffStrategy | PgBackoff}
+     */
+    backoff: PgBackoffStrategy | PgBackoff;
+
     /**
      * Specifies maximum number of re-connection retries to process, before
      * connection would be treated as broken (disconnected). By default
@@ -61,6 +138,26 @@ export interface PgPubSubOptions extends ClientConfig {
      */
     retryLimit: number;
 
+    /**
+     * Time interval in milliseconds between heartbeat queries, which
+     * verify the connection is alive by a round-trip to the database. A
+     * silently dropped (half-open) connection never fires any events, so
+     * without heartbeat it looks listening while no messages arrive. When
+     * heartbeat fails, `'stale'` event is emitted and the connection is
+     * re-created. By default is `0`, which turns heartbeat off.
+     *
+     * @type {number}
+     */
+    heartbeatInterval: number;
+
+    /**
+     * Time in milliseconds to wait for a heartbeat query round-trip, before
+     * the connection is treated as stale. By default is `5000ms`.
+     *
+     * @type {number}
+     */
+    heartbeatTimeout: number;
+
     /**
      * Time interval in milliseconds before `LISTEN` clients would re-try to
      * acquire channel locks. It works from one hand as connection keep-alive
@@ -85,6 +182,28 @@ export interface PgPubSubOptions extends ClientConfig {
      */
     singleListener: boolean;
 
+    /**
+     * Inter-process lock implementation used in single listener mode:
+     * `'table'` (default) keeps locks in the lock schema table, which is
+     * bootstrapped with DDL on the first run, `'advisory'` uses postgres
+     * advisory locks keyed by a hash of the channel name and requires no
+     * DDL. Advisory locks are freed by the database with the holder's
+     * session, but can not be used in execution lock mode.
+     *
+     * @type {PgLockStrategy}
+     */
+    lockStrategy: PgLockStrategy;
+
+    /**
+     * Custom lock implementation factory (optional), which builds locks of
+     * channels and, in execution lock mode, of messages in single listener
+     * mode instead of `lockStrategy`. Any implementation of [[AnyLock]]
+     * interface can be plugged in, e.g. in-memory lock in tests.
+     *
+     * @type {PgLockFactory}
+     */
+    lockFactory?: PgLockFactory;
+
     /**
      * If set to true, self emitted messages (those which were sent using
      * `NOTIFY` on the same connection) will be filtered on this connection.
@@ -103,6 +222,40 @@ export interface PgPubSubOptions extends ClientConfig {
      */
     executionLock: boolean;
 
+    /**
+     * Visibility timeout in milliseconds of messages handled under
+     * execution lock. A message is acknowledged once all its handlers
+     * complete; if it was claimed, but not acknowledged within this time
+     * (e.g. the executor crashed or hung mid-handler), or handling failed,
+     * it becomes claimable again by another listener. By default is
+     * `30000ms`.
+     *
+     * @type {number}
+     */
+    ackTimeout: number;
+
+    /**
+     * Turns on dead-lettering of messages which handlers keep failing on.
+     * Failed messages are re-delivered after `ackTimeout` and, once the
+     * number of failed attempts reaches `maxAttempts`, parked in the
+     * dead-letter table inside the lock schema, from where they can be
+     * listed and re-driven. If set to a channel name, dead letters are
+     * also published to that channel along with the failure details. By
+     * default is false.
+     *
+     * @type {boolean | string}
+     */
+    deadLetter: boolean | string;
+
+    /**
+     * Number of failed handling attempts after which a message is
+     * dead-lettered, see `deadLetter` option. Attempts are counted by each
+     * listener instance. By default is `5`.
+     *
+     * @type {number}
+     */
+    maxAttempts: number;
+
     /**
      * If set to true, the package registers SIGINT/SIGTERM/SIGABRT handlers
      * performing graceful locks release and process exit. Default is false:
@@ -111,6 +264,97 @@ export interface PgPubSubOptions extends ClientConfig {
      * @type {boolean}
      */
     handleSignals: boolean;
+
+    /**
+     * If set to true, `notify()` transparently splits payloads exceeding
+     * postgres `NOTIFY` payload limit into sequenced fragments, which are
+     * re-assembled by listeners before emitting messages. By default is
+     * false, so oversized payloads are rejected with `RangeError`.
+     *
+     * @type {boolean}
+     */
+    chunked: boolean;
+
+    /**
+     * Time in milliseconds listeners wait for all fragments of a chunked
+     * message to arrive. Incomplete messages are dropped after that and
+     * reported with `'fragmentTimeout'` event. By default is `30000ms`.
+     *
+     * @type {number}
+     */
+    fragmentTimeout: number;
+
+    /**
+     * If set to true, `notify()` stores payloads exceeding postgres
+     * `NOTIFY` payload limit in a payload table inside the lock schema and
+     * sends only a reference to the stored body, which listeners fetch
+     * transparently before emitting messages. Takes precedence over
+     * `chunked` option. By default is false.
+     *
+     * @type {boolean}
+     */
+    payloadStore: boolean;
+
+    /**
+     * Time-to-live in seconds of message bodies stored in the payload
+     * table. Expired bodies are cleaned up on subsequent stores (at most
+     * once a minute), so listeners must fetch them within this interval. By default is `3600`.
+     *
+     * @type {number}
+     */
+    payloadTtl: number;
+
+    /**
+     * If set to true, published messages are also appended to a durable
+     * channel log, and each subscriber persists the last sequence it has
+     * seen per channel. Whenever a channel starts being listened (including
+     * re-listen after reconnect), messages missed since then are replayed
+     * before live delivery resumes. By default is false.
+     *
+     * @type {boolean}
+     */
+    durable: boolean;
+
+    /**
+     * Time-to-live in seconds of durable channel log entries. Subscribers
+     * which stay disconnected longer will not get expired entries
+     * replayed. By default is `86400` (`24h`).
+     *
+     * @type {number}
+     */
+    durableTtl: number;
+
+    /**
+     * Time in milliseconds durable mode waits for log entries with lower
+     * sequence numbers, which may still be in flight, before the persisted
+     * cursor moves over a delivered entry. Concurrent publishers commit
+     * entries out of sequence order, so entries committed within this
+     * delay are still delivered, while those committed later are skipped.
+     * By default is `1000`.
+     *
+     * @type {number}
+     */
+    durableSettleDelay: number;
+
+    /**
+     * Identifier under which durable mode persists the last seen sequences
+     * (optional). By default a random identifier is generated per
+     * `PgPubSub` instance, so replay covers reconnects only. Set a stable
+     * value to continue after process restarts, or share it across
+     * replicas of a single listener service to let a newly elected
+     * listener continue from where the previous one stopped.
+     *
+     * @type {string}
+     */
+    subscriberId?: string;
+
+    /**
+     * Name of the physical channel topic messages are published over, see
+     * `publish()` and `listenTopic()`. By default is `'pg_pubsub_topics'`.
+     *
+     * @type {string}
+     */
+    topicChannel: string;
 }
 
 /**
@@ -122,9 +366,26 @@ export interface PgPubSubOptions extends ClientConfig {
 export const DefaultOptions: PgPubSubOptions = Object.freeze({
     retryLimit: RETRY_LIMIT,
     retryDelay: RETRY_DELAY,
+    retryMaxDelay: RETRY_MAX_DELAY,
+    backoff: 'constant',
+    shards: 1,
     singleListener: IS_ONE_PROCESS,
+    lockStrategy: 'table',
     acquireInterval: ACQUIRE_INTERVAL,
+    heartbeatInterval: 0,
+    heartbeatTimeout: HEARTBEAT_TIMEOUT,
     filtered: false,
     executionLock: EXECUTION_LOCK,
+    ackTimeout: ACK_TIMEOUT,
+    deadLetter: false,
+    maxAttempts: MAX_ATTEMPTS,
     handleSignals: false,
+    chunked: false,
+    fragmentTimeout: FRAGMENT_TIMEOUT,
+    payloadStore: false,
+    payloadTtl: PAYLOAD_TTL,
+    durable: false,
+    durableTtl: LOG_TTL,
+    durableSettleDelay: LOG_SETTLE_DELAY,
+    topicChannel: TOPIC_CHANNEL,
 });
@@ -0,0 +1,47 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type AnyJson } from './AnyJson.js';
+import { type PgMessageContext } from './PgMessageContext.js';
+
+/**
+ * Request handler accepted by `PgPubSub.respond()`. Resolves the reply
+ * payload; if it throws, the requester gets rejected with the error
+ * message.
+ */
+export type PgRequestHandler = (
+    payload: AnyJson,
+    context: PgMessageContext,
+) => AnyJson | Promise<AnyJson>;
+
+/**
+ * Options accepted by `PgPubSub.request()`
+ */
+export interface PgRequestOptions {
+    /**
+     * Time in milliseconds to wait for a reply (optional). If exceeded,
+     * the request is rejected with `PgTimeoutError`. By default is
+     * `30000ms`.
+     *
+     * @type {number}
+     */
+    timeout?: number;
+}
@@ -19,17 +19,22 @@
  * purchase a proprietary commercial license. Please contact us at
  * <support@imqueue.com> to get commercial licensing options.
  */
-import { type AnyJson } from '../types/index.js';
+import { type AnyJson, type PgMessageContext } from '../types/index.js';
 
 /**
  * Channel listener event, occurs whenever the listening channel gets a new
- * payload message.
+ * payload message. May return a promise, which is awaited in execution lock
+ * mode before the message is acknowledged.
  *
  * @mergeModuleWith PgChannelEmitter
  * @event channel
  * @param {AnyJson} payload - event payload
+ * @param {PgMessageContext} context - message handling context
  */
-export declare function channel(payload: AnyJson): void;
+export declare function channel(
+    payload: AnyJson,
+    context: PgMessageContext,
+): void;
 
 /**
  * `'end'` event, occurs whenever pg connection ends, so, literally it's simply
@@ -90,24 +95,104 @@ export declare function error(err: Error): void;
  * `'reconnect'` event occurs each time, when the connection is successfully
  * established after connection retry. It is followed by a corresponding
  * `'connect'` event, but after all possible channel locks finished their
- * attempts to be re-acquired.
+ * attempts to be re-acquired. Re-connected shard connection (see `shards`
+ * option) is reported with its shard index.
  *
  * @mergeModuleWith PgPubSub
  * @event reconnect
  * @param {number} retries - number of retries made before re-connect succeeded
+ * @param {number} [shard] - index of the re-connected shard connection,
+ * undefined for the main connection
  */
-export declare function reconnect(retries: number): void;
+export declare function reconnect(retries: number, shard?: number): void;
+
+/**
+ * `'gap'` event occurs each time the connection is successfully
+ * re-established, right before `'reconnect'` event, reporting the outage
+ * window and channels which were unlistened during it. Messages published
+ * to these channels within the window are missed (unless durable option
+ * is on), so applications may re-synchronize exactly the affected ones.
+ * Outage of a shard connection (see `shards` option) reports channels of
+ * that shard only, along with its shard index.
+ *
+ * @mergeModuleWith PgPubSub
+ * @event gap
+ * @param {Date} disconnectedAt - time the connection has been lost
+ * @param {Date} reconnectedAt - time the channels are listened again
+ * @param {string[]} channels - channels unlistened during the outage
+ * @param {number} [shard] - index of the re-connected shard connection,
+ * undefined for the main connection
+ */
+export declare function gap(
+    disconnectedAt: Date,
+    reconnectedAt: Date,
+    channels: string[],
+    shard?: number,
+): void;
+
+/**
+ * `'reconnecting'` event occurs each time re-connection attempt is
+ * scheduled after the connection has been lost, reporting the delay
+ * computed by the backoff strategy, see `backoff` option. Lost shard
+ * connection (see `shards` option) is reported with its shard index.
+ *
+ * @mergeModuleWith PgPubSub
+ * @event reconnecting
+ * @param {number} attempt - re-connection attempt number, starting from 1
+ * @param {number} delay - delay before the attempt, ms
+ * @param {Error} [err] - error connection has been lost with, if any
+ * @param {number} [shard] - index of the lost shard connection, undefined
+ * for the main connection
+ */
+export declare function reconnecting(
+    attempt: number,
+    delay: number,
+    err?: Error,
+    shard?: number,
+): void;
+
+/**
+ * `'stale'` event occurs each time heartbeat query fails or does not
+ * round-trip in time, so the connection is treated as dead and is going
+ * to be re-created, see `heartbeatInterval` option. Every shard connection
+ * (see `shards` option) is checked as well.
+ *
+ * @mergeModuleWith PgPubSub
+ * @event stale
+ * @param {Error} err - heartbeat failure reason
+ * @param {number} [shard] - index of the stale shard connection, undefined
+ * for the main connection
+ */
+export declare function stale(err: Error, shard?: number): void;
+
+/**
+ * `'failover'` event occurs each time connection has been established to
+ * another host than the previously active one, see `hosts` option.
+ *
+ * @mergeModuleWith PgPubSub
+ * @event failover
+ * @param {string} host - now active host, as `host:port`
+ * @param {string} previous - previously active host, as `host:port`
+ */
+export declare function failover(host: string, previous: string): void;
 
 /**
  * `'message'` event occurs each time database connection gets notification
- * to any listening channel. Fired before channel event emitted.
+ * to any listening channel. Fired before channel event emitted. May return
+ * a promise, which is awaited in execution lock mode before the message is
+ * acknowledged.
  *
  * @mergeModuleWith PgPubSub
  * @event message
  * @param {string} chan - channel to which notification corresponding to
  * @param {AnyJson} payload - notification message payload
+ * @param {PgMessageContext} context - message handling context
  */
-export declare function message(chan: string, payload: AnyJson): void;
+export declare function message(
+    chan: string,
+    payload: AnyJson,
+    context: PgMessageContext,
+): void;
 
 /**
  * `'notify'` event occurs each time new message has been published to a
@@ -119,3 +204,55 @@ export declare function message(chan: string, payload: AnyJson): void;
  * @param {AnyJson} payload - notification message payload
  */
 export declare function notify(chan: string, payload: AnyJson): void;
+
+/**
+ * `'fragmentTimeout'` event occurs each time chunked message has not been
+ * completely received within `fragmentTimeout` interval, so it was dropped.
+ *
+ * @mergeModuleWith PgPubSub
+ * @event fragmentTimeout
+ * @param {string} chan - channel to which message corresponding to
+ * @param {string} id - identifier of the dropped message
+ * @param {number} received - number of fragments received
+ * @param {number} total - number of fragments message consists of
+ */
+export declare function fragmentTimeout(
+    chan: string,
+    id: string,
+    received: number,
+    total: number,
+): void;
+
+/**
+ * `'invalid'` event occurs each time a message received on a channel
+ * defined with `channel()` does not pass the channel validation, so it was
+ * dropped without reaching any listeners.
+ *
+ * @mergeModuleWith PgPubSub
+ * @event invalid
+ * @param {string} chan - channel to which message corresponding to
+ * @param {AnyJson} payload - invalid message payload
+ * @param {Error} [err] - error thrown by the validator, if any
+ */
+export declare function invalid(
+    chan: string,
+    payload: AnyJson,
+    err?: Error,
+): void;
+
+/**
+ * `'handlerError'` event occurs each time a handler subscribed with
+ * `subscribe()` throws, rejects or does not settle within its timeout
+ * (in this case error is `PgTimeoutError`).
+ *
+ * @mergeModuleWith PgPubSub
+ * @event handlerError
+ * @param {Error} err - handler error
+ * @param {string} chan - channel to which message corresponding to
+ * @param {AnyJson} payload - message payload handler failed on
+ */
+export declare function handlerError(
+    err: Error,
+    chan: string,
+    payload: AnyJson,
+): void;
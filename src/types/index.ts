@@ -25,3 +25,22 @@ export * from './PgClient.js';
 export * from './PgPubSubOptions.js';
 export * from './events.js';
 export * from './AnyLock.js';
+export * from './PgFragment.js';
+export * from './PgMessageContext.js';
+export * from './PgDeadLetter.js';
+export * from './PgSubscribeOptions.js';
+export * from './PgChannelOptions.js';
+export * from './PgMessageMeta.js';
+export * from './PgMessage.js';
+export * from './PgIterateOptions.js';
+export * from './PgRequestOptions.js';
+export * from './PgReply.js';
+export * from './PgGatherOptions.js';
+export * from './PgQueryable.js';
+export * from './PgNotifyOptions.js';
+export * from './PgOutgoingMessage.js';
+export * from './PgBackoff.js';
+export * from './PgPublisherOptions.js';
+export * from './PgLockStrategy.js';
+export * from './PgLockFactory.js';
+export * from './PgElectOptions.js';
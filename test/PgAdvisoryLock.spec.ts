@@ -0,0 +1,160 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spy as makeSpy, stub as makeStub } from './mocks/spy.js';
+import './mocks/index.js';
+
+import { Client } from 'pg';
+import { PgAdvisoryLock, PgPubSub } from '../src/index.js';
+import { type PgClient } from '../src/types/index.js';
+
+describe('PgAdvisoryLock', () => {
+    let client: PgClient;
+    let lock: PgAdvisoryLock;
+
+    const acquiredAs = (acquired: boolean) =>
+        makeStub(client, 'query').resolves({ rows: [{ acquired }] });
+
+    beforeEach(() => {
+        client = new Client() as PgClient;
+        lock = new PgAdvisoryLock('LockTest', {
+            pgClient: client,
+            logger: console,
+            acquireInterval: 30000,
+        });
+    });
+    afterEach(async () => lock.destroy());
+
+    it('should be a class', () => {
+        assert.equal(typeof PgAdvisoryLock, 'function');
+    });
+
+    describe('constructor()', () => {
+        it('should derive 64-bit lock key from the channel', () => {
+            const key = BigInt(lock.key);
+
+            assert.equal(lock.channel, `__${PgAdvisoryLock.name}__:LockTest`);
+            assert.ok(key >= -(2n ** 63n) && key < 2n ** 63n);
+            assert.equal(
+                new PgAdvisoryLock(lock.channel, lock.options).key,
+                lock.key,
+            );
+        });
+    });
+    describe('init()', () => {
+        it('should listen release channel without any DDL', async () => {
+            const spy = makeSpy(client, 'query');
+
+            await lock.init();
+
+            assert.deepEqual(
+                spy.getCalls().map(({ args: [query] }) => query),
+                [`LISTEN "${lock.channel}"`],
+            );
+        });
+    });
+    describe('acquire()', () => {
+        it('should acquire free lock once', async () => {
+            const stub = acquiredAs(true);
+
+            assert.equal(await lock.acquire(), true);
+            assert.equal(await lock.acquire(), true);
+            assert.equal(stub.calledOnce, true);
+            assert.deepEqual(stub.getCalls()[0].args[1], [lock.key]);
+            assert.equal(lock.isAcquired(), true);
+        });
+        it('should not acquire busy lock', async () => {
+            acquiredAs(false);
+
+            assert.equal(await lock.acquire(), false);
+            assert.equal(lock.isAcquired(), false);
+        });
+    });
+    describe('release()', () => {
+        it('should unlock and announce release', async () => {
+            acquiredAs(true);
+            await lock.acquire();
+
+            const stub = acquiredAs(true);
+
+            await lock.release();
+
+            assert.match(stub.getCalls()[0].args[0], /PG_ADVISORY_UNLOCK/);
+            assert.deepEqual(stub.getCalls()[0].args[1], [
+                lock.key,
+                lock.channel,
+                '1',
+            ]);
+            assert.equal(lock.isAcquired(), false);
+        });
+        it('should not unlock lock it does not hold', async () => {
+            const spy = makeSpy(client, 'query');
+
+            await lock.release();
+
+            assert.equal(spy.called, false);
+        });
+    });
+    describe('onRelease()', () => {
+        it('should call handler on release announce', () => {
+            const handler = makeSpy();
+
+            lock.onRelease(handler);
+            client.emit('notification', { channel: lock.channel });
+            client.emit('notification', { channel: 'Other' });
+
+            assert.equal(handler.calledOnce, true);
+            assert.equal(handler.calledWith('LockTest'), true);
+        });
+        it('should not allow to set handler twice', () => {
+            lock.onRelease(() => undefined);
+
+            assert.throws(() => lock.onRelease(() => undefined), TypeError);
+        });
+    });
+    describe('PgPubSub lockStrategy option', () => {
+        it('should lock channels with advisory locks', async () => {
+            const pubSub = new PgPubSub({
+                pgClient: client,
+                singleListener: true,
+                lockStrategy: 'advisory',
+            });
+
+            await pubSub.listen('LockTest');
+
+            assert.ok((pubSub as any).locks.LockTest instanceof PgAdvisoryLock);
+            await pubSub.destroy();
+        });
+        it('should reject execution lock mode', () => {
+            assert.throws(
+                () =>
+                    new PgPubSub({
+                        pgClient: client,
+                        lockStrategy: 'advisory',
+                        executionLock: true,
+                    }),
+                TypeError,
+            );
+        });
+    });
+});
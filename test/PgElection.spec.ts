@@ -0,0 +1,195 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spy as makeSpy } from './mocks/spy.js';
+import './mocks/index.js';
+
+import { Client } from 'pg';
+import {
+    ELECTION_CHANNEL_PREFIX,
+    NoLock,
+    PgElection,
+    PgPubSub,
+} from '../src/index.js';
+
+// in-memory lock, which is free unless told otherwise
+class MemoryLock extends NoLock {
+    public free = true;
+    public releaseHandler?: (channel: string) => void;
+    private held = false;
+
+    public override onRelease(handler: (channel: string) => void): void {
+        this.releaseHandler = handler;
+    }
+
+    public override async acquire(): Promise<boolean> {
+        this.held = this.free;
+
+        return this.held;
+    }
+
+    public override isAcquired(): boolean {
+        return this.held;
+    }
+
+    public override dispose(): void {
+        this.held = false;
+    }
+
+    public override async destroy(): Promise<void> {
+        this.dispose();
+    }
+}
+
+describe('PgElection', () => {
+    let pubSub: PgPubSub;
+    let locks: MemoryLock[];
+    let factory: ReturnType<typeof makeSpy>;
+
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+    beforeEach(() => {
+        locks = [];
+        factory = makeSpy();
+        pubSub = new PgPubSub({
+            pgClient: new Client(),
+            lockFactory: (channel, context) => {
+                const lock = new MemoryLock();
+
+                factory(channel, context);
+                locks.push(lock);
+
+                return lock;
+            },
+        });
+    });
+    afterEach(async () => pubSub.destroy());
+
+    it('should be a class', () => {
+        assert.equal(typeof PgElection, 'function');
+    });
+
+    describe('PgPubSub.elect()', () => {
+        it('should elect the leader on a dedicated lock channel', async () => {
+            const onElected = makeSpy();
+            const election = await pubSub.elect('cron', { onElected });
+
+            await tick();
+
+            assert.equal(election.name, 'cron');
+            assert.equal(election.isLeader(), true);
+            assert.equal(onElected.calledOnce, true);
+            assert.equal(
+                factory.getCalls()[0].args[0],
+                `${ELECTION_CHANNEL_PREFIX}cron`,
+            );
+        });
+        it('should hold elections regardless of single listener', async () => {
+            pubSub.options.singleListener = false;
+
+            const election = await pubSub.elect('cron');
+
+            assert.equal(election.isLeader(), true);
+        });
+        it('should reject election already held by instance', async () => {
+            await pubSub.elect('cron');
+
+            await assert.rejects(pubSub.elect('cron'), TypeError);
+        });
+    });
+    describe('isLeader()', () => {
+        it('should stay a candidate while the lock is busy', async () => {
+            const onElected = makeSpy();
+
+            pubSub.options.lockFactory = () => {
+                const lock = new MemoryLock();
+
+                lock.free = false;
+                locks.push(lock);
+
+                return lock;
+            };
+
+            const election = await pubSub.elect('cron', { onElected });
+
+            assert.equal(election.isLeader(), false);
+
+            locks[0].free = true;
+            locks[0].releaseHandler?.('cron');
+            await tick();
+
+            assert.equal(election.isLeader(), true);
+            assert.equal(onElected.calledOnce, true);
+        });
+    });
+    describe('resign()', () => {
+        it('should demote and release the lock', async () => {
+            const onDemoted = makeSpy();
+            const election = await pubSub.elect('cron', { onDemoted });
+            const destroy = makeSpy(locks[0], 'destroy');
+
+            await election.resign();
+            await tick();
+
+            assert.equal(election.isLeader(), false);
+            assert.equal(onDemoted.calledOnce, true);
+            assert.equal(destroy.calledOnce, true);
+        });
+        it('should allow to run the same election again', async () => {
+            const election = await pubSub.elect('cron');
+
+            await election.resign();
+
+            assert.equal((await pubSub.elect('cron')).isLeader(), true);
+        });
+    });
+    describe('reconnect', () => {
+        it('should demote on connection loss and re-elect', async () => {
+            const onDemoted = makeSpy();
+            const election = await pubSub.elect('cron', { onDemoted });
+
+            pubSub.emit('reconnecting', 1, 0);
+            await tick();
+
+            assert.equal(election.isLeader(), false);
+            assert.equal(onDemoted.calledOnce, true);
+
+            pubSub.emit('reconnect', 1);
+            await tick();
+
+            assert.equal(election.isLeader(), true);
+            assert.equal(locks.length, 2);
+        });
+    });
+    describe('PgPubSub.destroy()', () => {
+        it('should resign all elections', async () => {
+            const election = await pubSub.elect('cron');
+            const destroy = makeSpy(locks[0], 'destroy');
+
+            await pubSub.destroy();
+
+            assert.equal(election.isLeader(), false);
+            assert.equal(destroy.calledOnce, true);
+        });
+    });
+});
@@ -135,12 +135,89 @@ describe('IPCLock', () => {
             assert.equal(await lock.acquire(), false);
         });
     });
+    describe('fencingToken', () => {
+        it('should expose token of every acquisition', async () => {
+            const stub = makeStub(client, 'query').resolves({
+                rows: [{ token: '7' }],
+            });
+
+            assert.equal(lock.fencingToken, undefined);
+            await lock.acquire();
+            assert.equal(lock.fencingToken, 7);
+
+            stub.resolves({ rows: [{ token: '8' }] });
+            (lock as any).acquired = false;
+            await lock.acquire();
+            assert.equal(lock.fencingToken, 8);
+        });
+        it('should drop token once the lock is lost', async () => {
+            let count = 0;
+            client.query = (async () => {
+                if (++count > 1) {
+                    throw new FakeError();
+                }
+
+                return { rows: [{ token: '1' }] };
+            }) as any;
+
+            await lock.acquire();
+            assert.equal(lock.fencingToken, 1);
+            await lock.acquire();
+            assert.equal(lock.fencingToken, undefined);
+        });
+        it('should drop token on release', async () => {
+            makeStub(client, 'query').resolves({ rows: [{ token: '3' }] });
+
+            await lock.acquire();
+            await lock.release();
+            assert.equal(lock.fencingToken, undefined);
+        });
+        it('should take token from the schema sequence', async () => {
+            const spy = makeSpy(client, 'query');
+
+            await lock.acquire();
+
+            const [[text]] = spy.getCalls().map(({ args }) => args);
+
+            assert.ok(/NEXTVAL\(\$3::REGCLASS\)/.test(text));
+            assert.ok(/RETURNING token/.test(text));
+        });
+        it('should keep token when the holder re-acquires', async () => {
+            const spy = makeSpy(client, 'query');
+
+            await lock.acquire();
+
+            const [[text]] = spy.getCalls().map(({ args }) => args);
+
+            assert.match(
+                text,
+                /WHEN \S+lock\.app = \$2[\s\S]*THEN \S+lock\.token[\s\S]*ELSE NEXTVAL/,
+            );
+        });
+    });
     describe('release()', () => {
         it('should release acquired lock', async () => {
             await lock.acquire();
             await lock.release();
             assert.equal(lock.isAcquired(), false);
         });
+        it('should pass lock values as bound parameters', async () => {
+            const spy = makeSpy(client, 'query');
+
+            client.appName = 'test-app';
+            await lock.acquire();
+            await lock.release();
+
+            const [acquire, release] = spy.getCalls().map(({ args }) => args);
+
+            assert.deepEqual(acquire[1], [
+                lock.channel,
+                'test-app',
+                `${lock.schemaName}.lock_token`,
+            ]);
+            assert.deepEqual(release[1], [lock.channel]);
+            assert.ok(!acquire[0].includes(lock.channel));
+        });
     });
     describe('onRelease()', () => {
         it('should not allow set handler twice', () => {
@@ -26,10 +26,20 @@ import './mocks/index.js';
 
 import { Client } from 'pg';
 import {
+    FRAGMENT_KEY,
+    GATHER_CHANNEL,
+    LOG_KEY,
+    NoLock,
+    PAYLOAD_KEY,
     type PgClient,
     PgIpLock,
     PgPubSub,
+    shardOf,
+    PgTimeoutError,
+    NOTIFY_MANY_STATEMENT,
+    NOTIFY_STATEMENT,
     RETRY_LIMIT,
+    TOPIC_KEY,
 } from '../src/index.js';
 
 describe('PgPubSub', () => {
@@ -45,6 +55,36 @@ describe('PgPubSub', () => {
         });
     };
 
+    const fakeQuery = (responses: Array<[RegExp, any[]]>) => {
+        const query = (pgClient as any).query.bind(pgClient);
+        const spy = makeSpy();
+
+        (pgClient as any).query = async (text: any, values?: any[]) => {
+            spy(text, values);
+
+            for (const [rx, rows] of responses) {
+                if (rx.test(text)) {
+                    return { rows };
+                }
+            }
+
+            return query(text, values);
+        };
+
+        return spy;
+    };
+
+    const notifyQuery = (channel: string, payload: string) => ({
+        name: NOTIFY_STATEMENT,
+        text: 'SELECT PG_NOTIFY($1, $2)',
+        values: [channel, payload],
+    });
+    const notifies = (spy: any) =>
+        spy
+            .getCalls()
+            .map(({ args: [query] }: any) => query)
+            .filter((query: any) => query?.name === NOTIFY_STATEMENT);
+
     beforeEach(() => {
         pgClient = new Client();
         pubSub = new PgPubSub({ pgClient });
@@ -197,6 +237,45 @@ describe('PgPubSub', () => {
                 );
             }
         });
+        it('should delay reconnects with backoff', async () => {
+            const reconnecting: any[][] = [];
+
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                retryLimit: 3,
+                backoff: (attempt, err) => {
+                    assert.equal(err?.message, 'boom');
+
+                    return attempt * 5;
+                },
+            });
+            Client.prototype.connect = function (this: any) {
+                this.emit('error', new Error('boom'));
+            } as any;
+
+            const failed = new Promise<void>(resolve =>
+                pubSub.on('error', err => {
+                    if (/Connect failed/.test(err.message)) {
+                        resolve();
+                    }
+                }),
+            );
+
+            pubSub.on('reconnecting', (attempt, delay) =>
+                reconnecting.push([attempt, delay]),
+            );
+            pubSub.connect().catch(() => {
+                /* ignore faking errors */
+            });
+            await failed;
+
+            assert.deepEqual(reconnecting, [
+                [1, 5],
+                [2, 10],
+                [3, 15],
+            ]);
+        });
         it('should re-subscribe all channels', (_: unknown, done: (
             err?: Error,
         ) => void) => {
@@ -212,6 +291,378 @@ describe('PgPubSub', () => {
                 done();
             }, 30);
         });
+        it('should report outage gap with unlistened channels', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({ pgClient, retryDelay: 5 });
+            await pubSub.listen('TestOne');
+            await pubSub.listen('TestTwo');
+            await pubSub.connect();
+
+            const before = new Date();
+            const gap = new Promise<any[]>(resolve =>
+                pubSub.once('gap', (...args) => resolve(args)),
+            );
+
+            pgClient.emit('end');
+
+            const [disconnectedAt, reconnectedAt, channels] = await gap;
+
+            assert.ok(disconnectedAt >= before);
+            assert.ok(reconnectedAt >= disconnectedAt);
+            assert.deepEqual(channels.sort(), ['TestOne', 'TestTwo']);
+        });
+        it('should re-listen channels in execution lock mode', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                retryDelay: 5,
+            });
+            await pubSub.listen('Orders');
+            await pubSub.connect();
+
+            const listen = makeSpy(pubSub, 'listen');
+            const gap = new Promise<any[]>(resolve =>
+                pubSub.once('gap', (...args) => resolve(args)),
+            );
+
+            pgClient.emit('end');
+
+            const [, , channels] = await gap;
+
+            assert.deepEqual(channels, ['Orders']);
+            assert.equal(listen.calledWith('Orders'), true);
+        });
+        it('should keep channels across failed attempts', async () => {
+            let calls = 0;
+
+            await pubSub.destroy();
+            pubSub = new PgPubSub({ pgClient, retryDelay: 5 });
+            Client.prototype.connect = function (this: any) {
+                if (++calls === 2) {
+                    this.emit('error', new Error('boom'));
+                } else {
+                    this.emit('connect');
+                }
+            } as any;
+            pubSub.on('error', () => {
+                /* connection errors are expected here */
+            });
+            await pubSub.listen('TestOne');
+            await pubSub.connect();
+
+            const gap = new Promise<any[]>(resolve =>
+                pubSub.once('gap', (...args) => resolve(args)),
+            );
+
+            pgClient.emit('end');
+
+            const [, , channels] = await gap;
+
+            assert.equal(calls, 3);
+            assert.deepEqual(channels, ['TestOne']);
+        });
+        it('should fail over to the next writable host', async () => {
+            const originalQuery = Client.prototype.query;
+            const reconnecting = makeSpy();
+
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                hosts: [
+                    { host: 'one' },
+                    { host: 'two' },
+                    { host: 'three', port: 5433 },
+                ],
+                retryDelay: 5,
+            });
+            pubSub.on('reconnecting', reconnecting);
+            Client.prototype.query = async function (
+                this: any,
+                query: any,
+                params?: any[],
+            ) {
+                if (query === 'SELECT pg_is_in_recovery() AS recovery') {
+                    return {
+                        rows: [{ recovery: this.options.host === 'two' }],
+                    };
+                }
+
+                return (originalQuery as any).call(this, query, params);
+            } as any;
+
+            try {
+                await pubSub.connect();
+
+                const failover = new Promise<any[]>(resolve =>
+                    pubSub.once('failover', (...args) => resolve(args)),
+                );
+
+                (pubSub.pgClient as any).emit('end');
+
+                assert.deepEqual(await failover, ['three:5433', 'one:5432']);
+                assert.equal(reconnecting.calledTwice, true);
+                assert.match(
+                    reconnecting.getCalls()[1].args[2].message,
+                    /two:5432 is in recovery/,
+                );
+            } finally {
+                Client.prototype.query = originalQuery;
+            }
+        });
+        it('should not check recovery with a single host', async () => {
+            const spy = makeSpy(pgClient, 'query');
+
+            await pubSub.connect();
+
+            assert.ok(
+                !spy
+                    .getCalls()
+                    .some(({ args: [query] }: any) =>
+                        String(query).includes('pg_is_in_recovery'),
+                    ),
+            );
+        });
+    });
+    describe('sharding', () => {
+        const channels = Array.from({ length: 12 }, (_, i) => `Shard${i}`);
+        const listened = (spy: any) =>
+            spy
+                .getCalls()
+                .map(({ args: [query] }: any) => String(query))
+                .filter((query: string) => query.startsWith('LISTEN'))
+                .map((query: string) => query.slice(7).replace(/"/g, ''))
+                // lock release channels are listened over the main one
+                .filter((channel: string) => !channel.startsWith('__'));
+
+        beforeEach(async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({ pgClient, shards: 3, retryDelay: 5 });
+        });
+
+        it('should listen channels over their shard connections', async () => {
+            const clients = [pgClient, ...(pubSub as any).shardClients];
+            const spies = clients.map(client => makeSpy(client, 'query'));
+
+            await pubSub.connect();
+            await Promise.all(channels.map(channel => pubSub.listen(channel)));
+
+            assert.equal(clients.length, 3);
+            spies.forEach((spy, shard) =>
+                assert.deepEqual(
+                    listened(spy).sort(),
+                    channels
+                        .filter(channel => shardOf(channel, 3) === shard)
+                        .sort(),
+                ),
+            );
+            assert.deepEqual(
+                pubSub.activeChannels().sort(),
+                [...channels].sort(),
+            );
+        });
+        it('should deliver notifications from every shard', async () => {
+            const [shard] = (pubSub as any).shardClients;
+            const message = new Promise<any>(resolve =>
+                pubSub.channels.once('Shard1', resolve),
+            );
+
+            await pubSub.connect();
+            await pubSub.listen('Shard1');
+            shard.emit('notification', {
+                channel: 'Shard1',
+                payload: '{"a":1}',
+                processId: 1,
+            });
+
+            assert.deepEqual(await message, { a: 1 });
+        });
+        it('should re-listen only channels of a lost shard', async () => {
+            await pubSub.connect();
+            await Promise.all(channels.map(channel => pubSub.listen(channel)));
+
+            const lost = (pubSub as any).shardClients[0];
+            const mainSpy = makeSpy(pgClient, 'query');
+
+            lost.emit('end');
+
+            const fresh = (pubSub as any).shardClients[0];
+            const spy = makeSpy(fresh, 'query');
+
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            assert.notEqual(fresh, lost);
+            assert.equal(pubSub.pgClient, pgClient);
+            assert.deepEqual(
+                listened(spy).sort(),
+                channels.filter(channel => shardOf(channel, 3) === 1).sort(),
+            );
+            assert.deepEqual(listened(mainSpy), []);
+        });
+        it('should report gap of a lost shard channels only', async () => {
+            const reconnecting = makeSpy();
+
+            await pubSub.connect();
+            await Promise.all(channels.map(channel => pubSub.listen(channel)));
+            pubSub.on('reconnecting', reconnecting);
+
+            const gap = new Promise<any[]>(resolve =>
+                pubSub.once('gap', (...args) => resolve(args)),
+            );
+            const reconnect = new Promise<any[]>(resolve =>
+                pubSub.once('reconnect', (...args) => resolve(args)),
+            );
+
+            (pubSub as any).shardClients[0].emit('end');
+
+            const [, , lost, shard] = await gap;
+
+            assert.deepEqual(
+                lost.sort(),
+                channels.filter(channel => shardOf(channel, 3) === 1).sort(),
+            );
+            assert.equal(shard, 1);
+            assert.deepEqual(await reconnect, [1, 1]);
+            assert.equal(reconnecting.getCalls()[0].args[3], 1);
+        });
+        it('should report main connection channels only on its gap', async () => {
+            pubSub.options.singleListener = false;
+            await pubSub.connect();
+            await Promise.all(channels.map(channel => pubSub.listen(channel)));
+
+            const gap = new Promise<any[]>(resolve =>
+                pubSub.once('gap', (...args) => resolve(args)),
+            );
+
+            pgClient.emit('end');
+
+            const [, , lost, shard] = await gap;
+
+            assert.deepEqual(
+                lost.sort(),
+                channels.filter(channel => shardOf(channel, 3) === 0).sort(),
+            );
+            assert.equal(shard, undefined);
+        });
+        it('should back off every shard on its own', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                shards: 3,
+                retryDelay: 5,
+                backoff: 'decorrelatedJitter',
+            });
+            await pubSub.connect();
+
+            const reconnect = new Promise(resolve =>
+                pubSub.once('reconnect', resolve),
+            );
+
+            (pubSub as any).shardClients[0].emit('end');
+            await reconnect;
+
+            const [shardBackoff] = (pubSub as any).shardBackoffs.filter(
+                Boolean,
+            );
+
+            assert.equal(typeof shardBackoff, 'function');
+            assert.notEqual(shardBackoff, (pubSub as any).backoff);
+        });
+        it('should give up shard re-connect after retry limit', async () => {
+            await pubSub.connect();
+            pubSub.options.retryLimit = 1;
+
+            const error = new Promise<Error>(resolve =>
+                pubSub.once('error', resolve),
+            );
+            const close = new Promise(resolve => pubSub.once('close', resolve));
+
+            (pubSub as any).shardClients[1].emit('end');
+
+            assert.match((await error).message, /Shard 2 connect failed/);
+            await close;
+        });
+        it('should heartbeat every shard connection', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                shards: 3,
+                heartbeatInterval: 5,
+                heartbeatTimeout: 5,
+                retryDelay: 5,
+            });
+
+            const stuck = (pubSub as any).shardClients[1];
+            const query = stuck.query.bind(stuck);
+            const stale = new Promise<any[]>(resolve =>
+                pubSub.once('stale', (...args) => resolve(args)),
+            );
+
+            stuck.query = async (text: any) =>
+                text === 'SELECT 1' ? new Promise(() => {}) : query(text);
+            await pubSub.connect();
+
+            const [err, shard] = await stale;
+
+            await new Promise(resolve => pubSub.once('reconnect', resolve));
+            assert.ok(err instanceof PgTimeoutError);
+            assert.equal(shard, 2);
+            assert.equal(pubSub.pgClient, pgClient);
+            assert.notEqual((pubSub as any).shardClients[1], stuck);
+        });
+    });
+    describe('heartbeat', () => {
+        const heartbeats = (spy: any) =>
+            spy
+                .getCalls()
+                .filter(({ args: [query] }: any) => query === 'SELECT 1')
+                .length;
+
+        it('should be off by default', async () => {
+            const spy = makeSpy(pgClient, 'query');
+
+            await pubSub.connect();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            assert.equal(heartbeats(spy), 0);
+        });
+        it('should periodically round-trip heartbeat query', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({ pgClient, heartbeatInterval: 5 });
+
+            const spy = makeSpy(pgClient, 'query');
+
+            await pubSub.connect();
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            assert.ok(heartbeats(spy) >= 2);
+        });
+        it('should emit stale and reconnect if heartbeat hangs', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                heartbeatInterval: 5,
+                heartbeatTimeout: 5,
+                retryDelay: 5,
+            });
+
+            const query = pgClient.query.bind(pgClient);
+            const reconnecting = makeSpy();
+            const stale = new Promise<Error>(resolve =>
+                pubSub.once('stale', resolve),
+            );
+
+            (pgClient as any).query = async (text: any) =>
+                text === 'SELECT 1' ? new Promise(() => {}) : query(text);
+            pubSub.on('reconnecting', reconnecting);
+            await pubSub.connect();
+
+            const err = await stale;
+
+            await new Promise(resolve => pubSub.once('reconnect', resolve));
+            assert.ok(err instanceof PgTimeoutError);
+            assert.equal(reconnecting.calledWith(1), true);
+            assert.notEqual(pubSub.pgClient, pgClient);
+        });
     });
     describe('close()', () => {
         it('should not reconnect if called', async () => {
@@ -358,54 +809,823 @@ describe('PgPubSub', () => {
                 await received;
             },
         );
-    });
-    describe('unlisten()', () => {
-        it('should call SQL UNLISTEN "channel" command', async () => {
-            pubSub.options.singleListener = true;
-            const spy = makeSpy(pubSub.pgClient, 'query');
-            await pubSub.unlisten('Test');
-            assert.ok(
-                spy
-                    .getCalls()
-                    .some(({ args: [arg] }) =>
-                        /^UNLISTEN\s+"Test"/.test(String(arg).trim()),
-                    ),
+        it('should ack message once async handler resolves', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                singleListener: true,
+            });
+
+            const spy = makeSpy(pgClient, 'query');
+            let finish!: () => void;
+
+            pubSub.on(
+                'message',
+                () =>
+                    new Promise<void>(resolve => {
+                        finish = resolve;
+                    }),
             );
-        });
-        it('should call SQL UNLISTEN "channel" command always', async () => {
-            pubSub.options.singleListener = false;
-            const spy = makeSpy(pubSub.pgClient, 'query');
-            await pubSub.unlisten('Test');
-            assert.ok(
+            await pubSub.listen('TestChannel');
+            pgClient.emit('notification', {
+                channel: 'TestChannel',
+                payload: 'true',
+            });
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            const acked = () =>
                 spy
                     .getCalls()
-                    .some(({ args: [arg] }) =>
-                        /^UNLISTEN\s+"Test"/.test(String(arg).trim()),
-                    ),
-            );
+                    .some(call =>
+                        /SET "?acked"? = TRUE/.test(String(call.args[0])),
+                    );
+
+            assert.equal(acked(), false);
+            finish();
+            await new Promise(resolve => setTimeout(resolve, 10));
+            assert.equal(acked(), true);
         });
-        it('should destroy existing locks', async () => {
-            await pubSub.listen('Test');
-            const spy = makeSpy((pubSub as any).locks.Test, 'destroy');
-            assert.equal(spy.called, false);
-            await pubSub.unlisten('Test');
-            assert.equal(spy.called, true);
+        it('should re-deliver message if handler rejects', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                singleListener: true,
+                ackTimeout: 10,
+            });
+
+            const errors: Error[] = [];
+            let attempts = 0;
+
+            pubSub.on('error', err => errors.push(err));
+
+            const delivered = new Promise<void>(resolve => {
+                pubSub.channels.on('TestChannel', async () => {
+                    if (++attempts === 1) {
+                        throw new Error('boom');
+                    }
+
+                    resolve();
+                });
+            });
+
+            listenFunc(pubSub);
+            await delivered;
+            assert.equal(attempts, 2);
+            assert.equal(errors[0].message, 'boom');
         });
-    });
-    describe('unlistenAll()', () => {
-        it('should call SQL UNLISTEN * command', async () => {
-            pubSub.options.singleListener = true;
-            const spy = makeSpy(pubSub.pgClient, 'query');
-            await pubSub.unlistenAll();
-            assert.ok(
-                spy
-                    .getCalls()
-                    .some(({ args: [arg] }) =>
-                        /^UNLISTEN\s+\*/.test(String(arg).trim()),
-                    ),
-            );
+        it('should re-deliver message on nack()', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                singleListener: true,
+                ackTimeout: 10,
+            });
+
+            let attempts = 0;
+
+            const delivered = new Promise<void>(resolve => {
+                pubSub.on('message', (_, __, context) => {
+                    if (++attempts === 1) {
+                        return context.nack();
+                    }
+
+                    resolve();
+                });
+            });
+
+            listenFunc(pubSub);
+            await delivered;
+            assert.equal(attempts, 2);
         });
-        it('should call SQL UNLISTEN * command always', async () => {
+    });
+    describe('lockFactory', () => {
+        it('should build channel locks with given factory', async () => {
+            await pubSub.destroy();
+
+            const lock = new NoLock();
+            const initSpy = makeSpy(lock, 'init');
+            const factory = makeSpy().returns(lock);
+
+            pubSub = new PgPubSub({
+                pgClient,
+                singleListener: true,
+                lockFactory: factory as any,
+            });
+
+            const received = new Promise<void>(resolve =>
+                pubSub.on('message', () => resolve()),
+            );
+
+            listenFunc(pubSub);
+            await received;
+
+            const [channel, context] = factory.getCalls()[0].args as any[];
+
+            assert.equal(channel, 'TestChannel');
+            assert.equal(context.uniqueKey, undefined);
+            assert.equal(context.pgClient, pgClient);
+            assert.equal(context.logger, pubSub.logger);
+            assert.equal(initSpy.calledOnce, true);
+            assert.equal((pubSub as any).locks.TestChannel, lock);
+        });
+        it('should build message locks with given factory', async () => {
+            await pubSub.destroy();
+
+            const factory = makeSpy().resolves(new NoLock());
+
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                singleListener: true,
+                lockFactory: factory as any,
+            });
+
+            const received = new Promise<void>(resolve =>
+                pubSub.on('message', () => resolve()),
+            );
+
+            listenFunc(pubSub);
+            await received;
+
+            const keys = factory
+                .getCalls()
+                .map(({ args: [, context] }: any) => context.uniqueKey);
+
+            assert.equal(keys.length, 1);
+            assert.equal(typeof keys[0], 'string');
+        });
+        it('should accept message locks with no ack support', async () => {
+            await pubSub.destroy();
+
+            const lock = Object.assign(new NoLock(), {
+                ack: undefined,
+                isProcessed: undefined,
+            });
+            const errors = makeSpy();
+
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                singleListener: true,
+                lockFactory: (() => lock) as any,
+            });
+            pubSub.on('error', errors);
+
+            const received = new Promise<void>(resolve =>
+                pubSub.on('message', () => resolve()),
+            );
+
+            listenFunc(pubSub);
+            await received;
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            assert.equal(errors.called, false);
+        });
+        it('should not be used for broadcast channel', async () => {
+            await pubSub.destroy();
+
+            const factory = makeSpy().returns(new NoLock());
+
+            pubSub = new PgPubSub({
+                pgClient,
+                singleListener: true,
+                lockFactory: factory as any,
+            });
+
+            await pubSub.listen(GATHER_CHANNEL);
+
+            assert.equal(factory.called, false);
+        });
+    });
+    describe('message meta', () => {
+        it('should expose delivery details to listeners', async () => {
+            const received = new Promise<any>(resolve =>
+                pubSub.once('message', (_, __, { meta }) => resolve(meta)),
+            );
+            const before = Date.now();
+
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: '{"a":"ü"}',
+                processId: 42,
+            });
+
+            const meta = await received;
+
+            assert.equal(meta.processId, 42);
+            assert.equal(meta.raw, '{"a":"ü"}');
+            assert.equal(meta.size, 10);
+            assert.equal(meta.locked, true);
+            assert.ok(meta.receivedAt.getTime() >= before);
+        });
+        it('should expose delivery details to channel listeners', async () => {
+            pubSub.options.singleListener = false;
+
+            const received = new Promise<any>(resolve =>
+                pubSub.channels.once('Test', (_, { meta }) => resolve(meta)),
+            );
+
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: '1',
+                processId: 42,
+            });
+
+            const meta = await received;
+
+            assert.equal(meta.processId, 42);
+            assert.equal(meta.locked, false);
+        });
+        it('should expose channel lock fencing token', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                lockFactory: () =>
+                    Object.assign(new NoLock(), { fencingToken: 5 }),
+            });
+
+            const received = new Promise<any>(resolve =>
+                pubSub.once('message', (_, __, { meta }) => resolve(meta)),
+            );
+
+            listenFunc(pubSub);
+
+            assert.equal((await received).fencingToken, 5);
+        });
+        it('should expose execution lock fencing token', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                lockFactory: () =>
+                    Object.assign(new NoLock(), { fencingToken: 9 }),
+            });
+
+            const received = new Promise<any>(resolve =>
+                pubSub.once('message', (_, __, { meta }) => resolve(meta)),
+            );
+
+            listenFunc(pubSub);
+
+            assert.equal((await received).fencingToken, 9);
+        });
+    });
+    describe('subscribe()', () => {
+        it('should listen channel', async () => {
+            const spy = makeSpy(pgClient, 'query');
+
+            await pubSub.subscribe('Test', () => undefined);
+            assert.equal(spy.calledWith('LISTEN "Test"'), true);
+        });
+        it('should isolate handler failures', async () => {
+            const errorSpy = makeSpy();
+            const failed = new Promise<any[]>(resolve =>
+                pubSub.once('handlerError', (...args) => resolve(args)),
+            );
+            const received = new Promise<any>(resolve =>
+                pubSub.subscribe('Test', resolve),
+            );
+
+            pubSub.on('error', errorSpy);
+            await pubSub.subscribe('Test', async () => {
+                throw new Error('boom');
+            });
+            pgClient.emit('notification', { channel: 'Test', payload: '1' });
+
+            const [err, channel, payload] = await failed;
+
+            assert.equal(await received, 1);
+            assert.equal(err.message, 'boom');
+            assert.equal(channel, 'Test');
+            assert.equal(payload, 1);
+            assert.equal(errorSpy.called, false);
+        });
+        it('should report handler timeout', async () => {
+            const failed = new Promise<Error>(resolve =>
+                pubSub.once('handlerError', resolve),
+            );
+
+            await pubSub.subscribe('Test', () => new Promise(() => {}), {
+                timeout: 10,
+            });
+            pgClient.emit('notification', { channel: 'Test', payload: '1' });
+
+            const err = await failed;
+
+            assert.ok(err instanceof PgTimeoutError);
+            assert.equal((err as PgTimeoutError).timeout, 10);
+        });
+        it('should unsubscribe handler', async () => {
+            const spy = makeSpy();
+            const unsubscribe = await pubSub.subscribe('Test', spy);
+
+            unsubscribe();
+            pgClient.emit('notification', { channel: 'Test', payload: '1' });
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            assert.equal(spy.called, false);
+            assert.equal(pubSub.channels.listenerCount('Test'), 0);
+        });
+    });
+    describe('request()', () => {
+        it('should resolve with responder reply', async () => {
+            await pubSub.respond('Rpc', payload => (payload as any).n * 2);
+
+            assert.equal(await pubSub.request('Rpc', { n: 2 }), 4);
+        });
+        it('should reject with responder error', async () => {
+            await pubSub.respond('Rpc', () => {
+                throw new Error('boom');
+            });
+
+            await assert.rejects(pubSub.request('Rpc', 1), /boom/);
+        });
+        it('should time out if nobody answers', async () => {
+            await assert.rejects(
+                pubSub.request('Rpc', 1, { timeout: 10 }),
+                (err: Error) =>
+                    err instanceof PgTimeoutError &&
+                    (err as PgTimeoutError).timeout === 10,
+            );
+        });
+        it('should listen reply channel once', async () => {
+            const spy = makeSpy(pgClient, 'query');
+
+            await pubSub.respond('Rpc', () => null);
+            await pubSub.request('Rpc', 1);
+            await pubSub.request('Rpc', 2);
+
+            const listens = spy
+                .getCalls()
+                .filter(({ args }) =>
+                    /^LISTEN "?pg_pubsub_reply_/.test(args[0]),
+                );
+
+            assert.equal(listens.length, 1);
+        });
+        it('should not dispatch replies to listeners', async () => {
+            const spy = makeSpy();
+
+            pubSub.on('message', spy);
+            await pubSub.respond('Rpc', () => null);
+            await pubSub.request('Rpc', 1);
+
+            assert.equal(spy.calledOnce, true);
+            assert.equal(spy.getCalls()[0].args[0], 'Rpc');
+        });
+        it('should validate request payload of validated channel', async () => {
+            pubSub.channel('Rpc', {
+                validate: (payload: any): payload is { n: number } =>
+                    typeof payload?.n === 'number',
+            });
+            await pubSub.respond('Rpc', payload => (payload as any).n * 2);
+
+            assert.equal(await pubSub.request('Rpc', { n: 2 }), 4);
+            await assert.rejects(
+                pubSub.request('Rpc', { n: '2' }),
+                (err: Error) => err instanceof TypeError,
+            );
+        });
+        it('should ignore messages which are not requests', async () => {
+            const spy = makeSpy();
+
+            await pubSub.respond('Rpc', spy);
+            pgClient.emit('notification', { channel: 'Rpc', payload: '1' });
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            assert.equal(spy.called, false);
+        });
+    });
+    describe('gather()', () => {
+        beforeEach(() => {
+            (pgClient as any).appName = 'test-app';
+        });
+
+        it('should collect replies of responders', async () => {
+            await pubSub.respond('Health', () => 'ok');
+
+            assert.deepEqual(
+                await pubSub.gather('Health', null, { expected: 1 }),
+                [{ app: 'test-app', payload: 'ok' }],
+            );
+        });
+        it('should collect responder errors', async () => {
+            await pubSub.respond('Health', () => {
+                throw new Error('boom');
+            });
+
+            assert.deepEqual(
+                await pubSub.gather('Health', null, { expected: 1 }),
+                [{ app: 'test-app', payload: null, error: 'boom' }],
+            );
+        });
+        it('should resolve collected replies on timeout', async () => {
+            await pubSub.respond('Other', () => 'ok');
+
+            assert.deepEqual(
+                await pubSub.gather('Health', null, { timeout: 10 }),
+                [],
+            );
+        });
+        it('should bypass single listener lock', async () => {
+            await pubSub.respond('Health', () => 'ok');
+
+            assert.ok((pubSub as any).locks[GATHER_CHANNEL] instanceof NoLock);
+        });
+        it('should bypass execution lock', async () => {
+            await pubSub.destroy();
+            pubSub = new PgPubSub({
+                pgClient,
+                executionLock: true,
+                singleListener: true,
+            });
+
+            const spy = makeSpy(pubSub as any, 'executeOnce');
+
+            await pubSub.respond('Health', () => 'ok');
+
+            const replies = await pubSub.gather('Health', null, {
+                expected: 1,
+            });
+
+            assert.equal(replies.length, 1);
+            assert.equal(
+                spy.getCalls().some(({ args }) => args[0] === GATHER_CHANNEL),
+                false,
+            );
+        });
+    });
+    describe('topics', () => {
+        it('should publish over topic channel', async () => {
+            const spy = makeSpy(pgClient, 'query');
+
+            await pubSub.publish('orders.eu.created', { id: 1 });
+
+            assert.equal(
+                spy.calledWith(
+                    notifyQuery(
+                        'pg_pubsub_topics',
+                        `{"${TOPIC_KEY}":"orders.eu.created","payload":{"id":1}}`,
+                    ),
+                ),
+                true,
+            );
+        });
+        it('should dispatch topic messages to matching patterns', async () => {
+            const created = makeSpy();
+            const all = makeSpy();
+            const users = makeSpy();
+            const message = makeSpy();
+
+            pubSub.channels.on('orders.*.created', created);
+            pubSub.channels.on('orders.#', all);
+            pubSub.channels.on('users.#', users);
+            pubSub.on('message', message);
+
+            await pubSub.listenTopic('orders.*.created');
+            await pubSub.listenTopic('orders.#');
+            await pubSub.listenTopic('users.#');
+            await pubSub.publish('orders.eu.created', { id: 1 });
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            assert.equal(created.calledWith({ id: 1 }), true);
+            assert.equal(all.calledWith({ id: 1 }), true);
+            assert.equal(users.called, false);
+            assert.equal(
+                message.calledWith('orders.eu.created', { id: 1 }),
+                true,
+            );
+        });
+        it('should unlisten topic channel once no patterns left', async () => {
+            const spy = makeSpy(pgClient, 'query');
+
+            await pubSub.listenTopic('orders.#');
+            await pubSub.listenTopic('users.#');
+            await pubSub.unlistenTopic('orders.#');
+            assert.equal(spy.calledWith('UNLISTEN pg_pubsub_topics'), false);
+            await pubSub.unlistenTopic('users.#');
+            assert.equal(spy.calledWith('UNLISTEN pg_pubsub_topics'), true);
+        });
+        it('should deliver topic messages to every instance', async () => {
+            let held = false;
+            const lockFactory = makeSpy().returns(
+                Object.assign(new NoLock(), {
+                    // only the first acquire in the cluster succeeds
+                    acquire: async () => !held && (held = true),
+                    isAcquired: () => false,
+                }),
+            );
+            const clients = [new Client(), new Client()];
+            const [one, two] = clients.map(
+                client =>
+                    new PgPubSub({
+                        pgClient: client as any,
+                        singleListener: true,
+                        lockFactory: lockFactory as any,
+                    }),
+            );
+            const orders = makeSpy();
+            const users = makeSpy();
+            const topic = (key: string, payload: any) =>
+                JSON.stringify({ [TOPIC_KEY]: key, payload });
+
+            try {
+                one.channels.on('orders.#', orders);
+                two.channels.on('users.#', users);
+                await one.listenTopic('orders.#');
+                await two.listenTopic('users.#');
+                clients[0].emit('notification', {
+                    channel: 'pg_pubsub_topics',
+                    payload: topic('orders.eu.created', { id: 1 }),
+                    processId: 1,
+                });
+                clients[1].emit('notification', {
+                    channel: 'pg_pubsub_topics',
+                    payload: topic('users.created', { id: 2 }),
+                    processId: 1,
+                });
+                await new Promise(resolve => setTimeout(resolve, 10));
+
+                assert.equal(orders.calledWith({ id: 1 }), true);
+                assert.equal(users.calledWith({ id: 2 }), true);
+                assert.equal(lockFactory.called, false);
+            } finally {
+                await Promise.all([one.destroy(), two.destroy()]);
+            }
+        });
+        it('should resolve concurrent listens once listened', async () => {
+            const query = pgClient.query.bind(pgClient);
+            let listened = false;
+
+            (pgClient as any).query = async (text: any, values?: any[]) => {
+                if (String(text).startsWith('LISTEN')) {
+                    await new Promise(resolve => setTimeout(resolve, 10));
+                    listened = true;
+                }
+
+                return query(text, values);
+            };
+
+            await Promise.all([
+                pubSub.listenTopic('orders.#'),
+                pubSub
+                    .listenTopic('users.#')
+                    .then(() => assert.equal(listened, true)),
+            ]);
+        });
+        it('should forget pattern if listen fails', async () => {
+            const spy = makeSpy(pgClient, 'query');
+            const query = pgClient.query;
+
+            (pgClient as any).query = async (text: any, values?: any[]) => {
+                if (String(text).startsWith('LISTEN')) {
+                    throw new Error('Listen failed');
+                }
+
+                return (query as any).call(pgClient, text, values);
+            };
+
+            await assert.rejects(pubSub.listenTopic('orders.#'), /Listen/);
+            assert.equal((pubSub as any).topics.size, 0);
+            pgClient.query = query;
+            await pubSub.listenTopic('users.#');
+            assert.equal(spy.calledWith('LISTEN pg_pubsub_topics'), true);
+        });
+    });
+    describe('channel()', () => {
+        const isOrder = (payload: any): payload is { id: number } =>
+            typeof payload?.id === 'number';
+
+        it('should publish valid payloads', async () => {
+            const spy = makeSpy(pgClient, 'query');
+            const orders = pubSub.channel<{ id: number }>('Orders', {
+                validate: isOrder,
+            });
+
+            await orders.publish({ id: 1 });
+            assert.equal(
+                spy.calledWith(notifyQuery('Orders', '{"id":1}')),
+                true,
+            );
+        });
+        it('should reject invalid payloads on publish', async () => {
+            pubSub.channel('Orders', { validate: isOrder });
+
+            await assert.rejects(
+                pubSub.notify('Orders', { id: 'one' }),
+                TypeError,
+            );
+        });
+        it('should drop invalid payloads on receipt', async () => {
+            const handler = makeSpy();
+            const message = makeSpy();
+            const invalid = new Promise<any[]>(resolve =>
+                pubSub.once('invalid', (...args) => resolve(args)),
+            );
+            const orders = pubSub.channel<{ id: number }>('Orders', {
+                validate: isOrder,
+            });
+
+            pubSub.on('message', message);
+            await orders.subscribe(handler);
+            pgClient.emit('notification', {
+                channel: 'Orders',
+                payload: '{"id":"one"}',
+            });
+
+            assert.deepEqual(await invalid, [
+                'Orders',
+                { id: 'one' },
+                undefined,
+            ]);
+            assert.equal(handler.called, false);
+            assert.equal(message.called, false);
+        });
+        it('should deliver valid payloads to typed handlers', async () => {
+            const orders = pubSub.channel<{ id: number }>('Orders', {
+                validate: isOrder,
+            });
+            const received = new Promise<number>(resolve =>
+                orders.subscribe(order => resolve(order.id)),
+            );
+
+            await new Promise(resolve => setTimeout(resolve));
+            pgClient.emit('notification', {
+                channel: 'Orders',
+                payload: '{"id":1}',
+            });
+
+            assert.equal(await received, 1);
+        });
+        it('should infer payload type from validator', async () => {
+            const orders = pubSub.channel('Orders', { validate: isOrder });
+            const received = new Promise<number>(resolve =>
+                orders.subscribe(order => resolve(order.id)),
+            );
+
+            await new Promise(resolve => setTimeout(resolve));
+            pgClient.emit('notification', {
+                channel: 'Orders',
+                payload: '{"id":2}',
+            });
+
+            assert.equal(await received, 2);
+        });
+        it('should keep validator if redefined without one', async () => {
+            pubSub.channel('Orders', { validate: isOrder });
+            pubSub.channel('Orders');
+
+            await assert.rejects(
+                pubSub.notify('Orders', { id: 'one' }),
+                TypeError,
+            );
+        });
+    });
+    describe('iterate()', () => {
+        const emit = (payload: string) =>
+            setTimeout(() =>
+                pgClient.emit('notification', { channel: 'Test', payload }),
+            );
+
+        it('should listen on first pull and unlisten on exit', async () => {
+            const spy = makeSpy(pgClient, 'query');
+            const iterator = pubSub.iterate('Test');
+            const received: any[] = [];
+
+            assert.equal(spy.called, false);
+            emit('1');
+            emit('2');
+
+            for await (const { channel, payload } of iterator) {
+                assert.equal(spy.calledWith('LISTEN "Test"'), true);
+                received.push([channel, payload]);
+
+                if (received.length === 2) {
+                    break;
+                }
+            }
+
+            assert.deepEqual(received, [
+                ['Test', 1],
+                ['Test', 2],
+            ]);
+            assert.equal(spy.calledWith('UNLISTEN "Test"'), true);
+        });
+        it('should end when signal aborts', async () => {
+            const controller = new AbortController();
+            const spy = makeSpy(pgClient, 'query');
+            const iterator = pubSub.iterate('Test', {
+                signal: controller.signal,
+            });
+            const pulled = iterator.next();
+
+            setTimeout(() => controller.abort(), 10);
+
+            assert.deepEqual(await pulled, { value: undefined, done: true });
+            assert.equal(spy.calledWith('UNLISTEN "Test"'), true);
+        });
+        it('should end when destroyed', async () => {
+            const iterator = pubSub.iterate('Test');
+            const pulled = iterator.next();
+
+            setTimeout(() => pubSub.destroy(), 10);
+
+            assert.deepEqual(await pulled, { value: undefined, done: true });
+        });
+        it('should resolve concurrent pulls in order', async () => {
+            const iterator = pubSub.iterate('Test');
+            const first = iterator.next();
+            const second = iterator.next();
+
+            emit('1');
+            emit('2');
+
+            assert.equal((await first).value?.payload, 1);
+            assert.equal((await second).value?.payload, 2);
+            await iterator.return();
+        });
+        it('should not unlisten channel listened by caller', async () => {
+            await pubSub.listen('Test');
+
+            const spy = makeSpy(pgClient, 'query');
+            const iterator = pubSub.iterate('Test');
+
+            emit('1');
+            await iterator.next();
+            await iterator.return();
+
+            assert.equal(spy.calledWith('UNLISTEN "Test"'), false);
+        });
+        it('should drop oldest messages beyond high-water mark', async () => {
+            const warn = makeStub(pubSub.logger, 'warn');
+            const iterator = pubSub.iterate('Test', { highWaterMark: 2 });
+
+            emit('1');
+            assert.equal((await iterator.next()).value?.payload, 1);
+            pgClient.emit('notification', { channel: 'Test', payload: '2' });
+            pgClient.emit('notification', { channel: 'Test', payload: '3' });
+            pgClient.emit('notification', { channel: 'Test', payload: '4' });
+            await new Promise(resolve => setTimeout(resolve, 10));
+            warn.restore();
+
+            assert.equal(warn.called, true);
+            assert.equal((await iterator.next()).value?.payload, 3);
+            assert.equal((await iterator.next()).value?.payload, 4);
+            await iterator.return();
+        });
+    });
+    describe('unlisten()', () => {
+        it('should call SQL UNLISTEN "channel" command', async () => {
+            pubSub.options.singleListener = true;
+            const spy = makeSpy(pubSub.pgClient, 'query');
+            await pubSub.unlisten('Test');
+            assert.ok(
+                spy
+                    .getCalls()
+                    .some(({ args: [arg] }) =>
+                        /^UNLISTEN\s+"Test"/.test(String(arg).trim()),
+                    ),
+            );
+        });
+        it('should call SQL UNLISTEN "channel" command always', async () => {
+            pubSub.options.singleListener = false;
+            const spy = makeSpy(pubSub.pgClient, 'query');
+            await pubSub.unlisten('Test');
+            assert.ok(
+                spy
+                    .getCalls()
+                    .some(({ args: [arg] }) =>
+                        /^UNLISTEN\s+"Test"/.test(String(arg).trim()),
+                    ),
+            );
+        });
+        it('should destroy existing locks', async () => {
+            await pubSub.listen('Test');
+            const spy = makeSpy((pubSub as any).locks.Test, 'destroy');
+            assert.equal(spy.called, false);
+            await pubSub.unlisten('Test');
+            assert.equal(spy.called, true);
+        });
+    });
+    describe('unlistenAll()', () => {
+        it('should call SQL UNLISTEN * command', async () => {
+            pubSub.options.singleListener = true;
+            const spy = makeSpy(pubSub.pgClient, 'query');
+            await pubSub.unlistenAll();
+            assert.ok(
+                spy
+                    .getCalls()
+                    .some(({ args: [arg] }) =>
+                        /^UNLISTEN\s+\*/.test(String(arg).trim()),
+                    ),
+            );
+        });
+        it('should call SQL UNLISTEN * command always', async () => {
             pubSub.options.singleListener = false;
             const spy = makeSpy(pubSub.pgClient, 'query');
             await pubSub.unlistenAll();
@@ -419,15 +1639,602 @@ describe('PgPubSub', () => {
         });
     });
     describe('notify()', () => {
-        it('should call SQL NOTIFY command', async () => {
+        it('should call parameterized pg_notify()', async () => {
             const spy = makeSpy(pubSub.pgClient, 'query');
             await pubSub.notify('Test', { a: 'b' });
+            assert.equal(
+                spy.calledWith(notifyQuery('Test', '{"a":"b"}')),
+                true,
+            );
+        });
+        it('should reject oversized payload if not chunked', async () => {
+            await assert.rejects(
+                pubSub.notify('Test', 'x'.repeat(9000)),
+                RangeError,
+            );
+        });
+        it('should split oversized payload if chunked', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+            const payload = { text: 'ü'.repeat(10000) };
+
+            pubSub.options.chunked = true;
+            await pubSub.notify('Test', payload);
+
+            const sent = notifies(spy);
+
+            assert.equal(sent.length, 4);
+            sent.forEach(({ values: [, body] }: any) =>
+                assert.ok(body.length < 8000),
+            );
+        });
+        it('should re-assemble chunked payload on receive', async () => {
+            const payload = { text: 'ü'.repeat(10000) };
+            const received = new Promise<any>(resolve =>
+                pubSub.channels.once('Test', resolve),
+            );
+            const messageSpy = makeSpy();
+
+            pubSub.on('message', messageSpy);
+            pubSub.options.chunked = true;
+            await pubSub.listen('Test');
+            await pubSub.notify('Test', payload);
+
+            assert.deepEqual(await received, payload);
+            assert.equal(messageSpy.calledOnce, true);
+        });
+        it('should emit fragmentTimeout on incomplete message', async () => {
+            const spy = makeSpy();
+
+            pubSub.on('fragmentTimeout', spy);
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: JSON.stringify({
+                    [FRAGMENT_KEY]: { id: 'abc', seq: 0, total: 2, data: '' },
+                }),
+            });
+
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            assert.equal(spy.calledWith('Test', 'abc', 1, 2), true);
+        });
+        it('should store oversized payload if payloadStore', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+
+            pubSub.options.payloadStore = true;
+            await pubSub.notify('Test', 'x'.repeat(9000));
+
+            const queries = spy.getCalls().map(({ args: [arg] }) => arg);
+
+            assert.ok(
+                queries.some(query => /INSERT INTO .*payload/.test(query)),
+            );
+            assert.ok(
+                notifies(spy).some(
+                    ({ values: [channel, body] }: any) =>
+                        channel === 'Test' &&
+                        body.startsWith(`{"${PAYLOAD_KEY}":`),
+                ),
+            );
+        });
+        it('should clean up expired payloads once per interval', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+
+            pubSub.options.payloadStore = true;
+            await pubSub.notify('Test', 'x'.repeat(9000));
+            await pubSub.notify('Test', 'y'.repeat(9000));
+
+            const queries = spy.getCalls().map(({ args: [arg] }) => arg);
+
+            assert.equal(
+                queries.filter(query => /INSERT INTO .*payload/.test(query))
+                    .length,
+                2,
+            );
+            assert.equal(
+                queries.filter(query => /DELETE FROM .*payload/.test(query))
+                    .length,
+                1,
+            );
+            assert.ok(
+                queries.some(query =>
+                    /CREATE INDEX .*payload_created_at/.test(query),
+                ),
+            );
+        });
+        it('should notify with given client', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+            const client = { query: makeSpy().resolves({ rows: [] }) };
+
+            await pubSub.notify('Test', { a: 'b' }, { client });
+
+            assert.equal(
+                client.query.calledWith(notifyQuery('Test', '{"a":"b"}')),
+                true,
+            );
+            assert.equal(notifies(spy).length, 0);
+        });
+        it('should store oversized payload with given client', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+            const client = { query: makeSpy().resolves({ rows: [] }) };
+
+            pubSub.options.payloadStore = true;
+            await pubSub.notify('Test', 'x'.repeat(9000), { client });
+
+            const own = spy.getCalls().map(({ args: [arg] }) => arg);
+            const given = client.query.getCalls().map(({ args: [arg] }) => arg);
+
+            assert.ok(own.some(query => /CREATE TABLE/.test(query)));
+            assert.ok(!own.some(query => /INSERT INTO/.test(query)));
+            assert.ok(given.some(query => /INSERT INTO .*payload/.test(query)));
+            assert.equal(notifies(client.query).length, 1);
+        });
+        it('should notify many messages in order', async () => {
+            const client = { query: makeSpy().resolves({ rows: [] }) };
+            const notifySpy = makeSpy();
+
+            pubSub.on('notify', notifySpy);
+            await pubSub.notifyMany(
+                [
+                    { channel: 'One', payload: 1 },
+                    { channel: 'Two', payload: 2 },
+                ],
+                { client },
+            );
+
+            const queries = client.query
+                .getCalls()
+                .map(({ args: [arg] }) => arg);
+
+            assert.equal(queries.length, 1);
+            assert.equal(queries[0].name, NOTIFY_MANY_STATEMENT);
+            assert.deepEqual(queries[0].values, [
+                ['One', 'Two'],
+                ['1', '2'],
+            ]);
+            assert.equal(notifySpy.calledTwice, true);
+        });
+        it('should reject the whole batch up front', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+
+            await assert.rejects(
+                pubSub.notifyMany([
+                    { channel: 'One', payload: 1 },
+                    { channel: 'Two', payload: 'x'.repeat(9000) },
+                ]),
+                RangeError,
+            );
+            pubSub.channel('Three', {
+                validate: (_payload): _payload is never => false,
+            });
+            await assert.rejects(
+                pubSub.notifyMany([
+                    { channel: 'One', payload: 1 },
+                    { channel: 'Three', payload: 3 },
+                ]),
+                TypeError,
+            );
+            assert.equal(spy.called, false);
+        });
+        it('should chunk oversized payloads within the batch', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+
+            pubSub.options.chunked = true;
+            await pubSub.notifyMany([
+                { channel: 'One', payload: 1 },
+                { channel: 'Two', payload: 'x'.repeat(9000) },
+            ]);
+
+            const batches = spy
+                .getCalls()
+                .map(({ args: [query] }) => query)
+                .filter(query => query?.name === NOTIFY_MANY_STATEMENT);
+            const [query] = batches;
+
+            assert.equal(batches.length, 1);
+            assert.deepEqual(query.values[0], ['One', 'Two', 'Two']);
+            assert.ok(query.values[1][1].includes(FRAGMENT_KEY));
+        });
+        it('should not query for empty batch', async () => {
+            const spy = makeSpy(pubSub.pgClient, 'query');
+
+            await pubSub.notifyMany([]);
+
+            assert.equal(spy.called, false);
+        });
+        it('should fetch stored payload on receive', async () => {
+            const query = pgClient.query.bind(pgClient);
+            const received = new Promise<any>(resolve =>
+                pubSub.channels.once('Test', resolve),
+            );
+
+            (pgClient as any).query = async (text: string) =>
+                /SELECT body/.test(text)
+                    ? { rows: [{ body: '{"a":"b"}' }] }
+                    : query(text);
+
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: JSON.stringify({ [PAYLOAD_KEY]: 'abc' }),
+            });
+
+            assert.deepEqual(await received, { a: 'b' });
+        });
+        it('should emit error if stored payload is gone', async () => {
+            const messageSpy = makeSpy();
+            const failed = new Promise<Error>(resolve =>
+                pubSub.once('error', resolve),
+            );
+
+            pubSub.on('message', messageSpy);
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: JSON.stringify({ [PAYLOAD_KEY]: 'abc' }),
+            });
+
+            assert.match((await failed).message, /abc.*not found/);
+            assert.equal(messageSpy.called, false);
+        });
+    });
+    describe('durable mode', () => {
+        beforeEach(() => {
+            pubSub.options.durable = true;
+            pubSub.options.durableSettleDelay = 5;
+        });
+
+        it('should log and deliver published messages', async () => {
+            const spy = fakeQuery([
+                [/INSERT INTO \S+channel_log/, [{ seq: '7' }]],
+                [/SELECT seq, body FROM/, [{ seq: '7', body: '{"a":"b"}' }]],
+            ]);
+            const messages: any[] = [];
+
+            pubSub.channels.on('Test', payload => messages.push(payload));
+            await pubSub.listen('Test');
+            await pubSub.notify('Test', { a: 'b' });
+
+            const [[text, values]] = spy
+                .getCalls()
+                .map(({ args }) => args)
+                .filter(([text]) => /INSERT INTO \S+channel_log/.test(text));
+
+            // entry is logged and sent by a single statement
+            assert.match(text, /PG_NOTIFY/);
+            assert.deepEqual(values, [
+                'Test',
+                '{"a":"b"}',
+                86400,
+                LOG_KEY,
+                8000,
+            ]);
+            assert.equal(notifies(spy).length, 0);
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: `{"${LOG_KEY}":7,"payload":{"a":"b"}}`,
+                processId: 1,
+            });
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            assert.deepEqual(messages, [{ a: 'b' }]);
+            assert.ok(
+                spy
+                    .getCalls()
+                    .some(({ args: [arg] }) =>
+                        /INSERT INTO \S+channel_cursor/.test(arg),
+                    ),
+            );
+        });
+        it('should log batch in a single statement', async () => {
+            const spy = fakeQuery([
+                [/INSERT INTO \S+channel_log/, [{ seq: '8' }, { seq: '7' }]],
+            ]);
+
+            await pubSub.notifyMany([
+                { channel: 'One', payload: 1 },
+                { channel: 'Two', payload: 2 },
+            ]);
+
+            const queries = spy.getCalls().map(({ args: [arg] }) => arg);
+            const batch = queries.find(
+                query => query?.name === NOTIFY_MANY_STATEMENT,
+            );
+
+            const logged = spy
+                .getCalls()
+                .filter(({ args: [arg] }) =>
+                    /INSERT INTO \S+channel_log/.test(arg),
+                );
+
+            assert.equal(logged.length, 1);
+            assert.ok(
+                /UNNEST\(\$1::VARCHAR\[\], \$2::TEXT\[\]\)/.test(
+                    logged[0].args[0],
+                ),
+            );
+            assert.deepEqual(logged[0].args[1].slice(0, 2), [
+                ['One', 'Two'],
+                ['1', '2'],
+            ]);
+            assert.match(logged[0].args[0], /PG_NOTIFY/);
+            assert.equal(batch, undefined);
+        });
+        it('should skip already seen log entries', async () => {
+            const messages: any[] = [];
+            const notification = {
+                channel: 'Test',
+                payload: JSON.stringify({ [LOG_KEY]: 3, payload: 'x' }),
+            };
+
+            pubSub.channels.on('Test', payload => messages.push(payload));
+            await pubSub.listen('Test');
+            pgClient.emit('notification', notification);
+            pgClient.emit('notification', notification);
+            await new Promise(resolve => setTimeout(resolve));
+
+            assert.deepEqual(messages, ['x']);
+        });
+        it('should deliver entries arriving out of order', async () => {
+            const messages: any[] = [];
+            const entry = (seq: number, payload: string) => ({
+                channel: 'Test',
+                payload: JSON.stringify({ [LOG_KEY]: seq, payload }),
+            });
+            const spy = fakeQuery([
+                [/SELECT MAX\(seq\)/, [{ seq: '5' }]],
+                [
+                    /SELECT seq, body FROM/,
+                    [
+                        { seq: '6', body: '"a"' },
+                        { seq: '7', body: '"b"' },
+                    ],
+                ],
+            ]);
+            const commits = () =>
+                spy
+                    .getCalls()
+                    .filter(({ args: [arg] }) =>
+                        /INSERT INTO \S+channel_cursor/.test(arg),
+                    );
+
+            pubSub.channels.on('Test', payload => messages.push(payload));
+            await pubSub.listen('Test');
+
+            const listenCommits = commits().length;
+
+            pgClient.emit('notification', entry(7, 'b'));
+            pgClient.emit('notification', entry(6, 'a'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            assert.deepEqual(messages, ['b', 'a']);
+            assert.equal((pubSub as any).cursors.Test, 7);
+            assert.equal(commits().length, listenCommits + 1);
+            assert.equal((pubSub as any).delivered.Test.size, 0);
+        });
+        it('should deliver missed entries before moving cursor', async () => {
+            const messages: any[] = [];
+            const spy = fakeQuery([
+                [/SELECT MAX\(seq\)/, [{ seq: '5' }]],
+                [
+                    /SELECT seq, body FROM/,
+                    [
+                        { seq: '6', body: '"a"' },
+                        { seq: '7', body: '"b"' },
+                    ],
+                ],
+            ]);
+
+            pubSub.channels.on('Test', payload => messages.push(payload));
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: JSON.stringify({ [LOG_KEY]: 7, payload: 'b' }),
+            });
+            await new Promise(resolve => setTimeout(resolve));
+
+            assert.equal((pubSub as any).cursors.Test, 5);
+
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            const [, values] = spy
+                .getCalls()
+                .map(({ args }) => args)
+                .find(([text]) => /SELECT seq, body FROM/.test(text)) as any[];
+
+            assert.deepEqual(values, ['Test', 5, 7]);
+            assert.deepEqual(messages, ['b', 'a']);
+            assert.equal((pubSub as any).cursors.Test, 7);
+        });
+        it('should replay missed entries on listen', async () => {
+            const messages: any[] = [];
+
+            fakeQuery([
+                [/SELECT seq FROM \S+channel_cursor/, [{ seq: '3' }]],
+                [
+                    /SELECT seq, body FROM/,
+                    [
+                        { seq: '4', body: '"a"' },
+                        { seq: '5', body: '"b"' },
+                    ],
+                ],
+            ]);
+            pubSub.channels.on('Test', payload => messages.push(payload));
+            await pubSub.listen('Test');
+
+            assert.deepEqual(messages, ['a', 'b']);
+        });
+    });
+    describe('dead letters', () => {
+        beforeEach(() => {
+            pubSub.options.deadLetter = 'DeadLetters';
+            pubSub.options.maxAttempts = 2;
+            pubSub.options.ackTimeout = 10;
+            pubSub.on('error', () => undefined);
+        });
+
+        it('should re-deliver and park failing message', async () => {
+            const spy = fakeQuery([[/INSERT INTO .*dead_letter/, [{ id: 7 }]]]);
+            const notifySpy = makeSpy();
+            let attempts = 0;
+
+            pubSub.on('notify', notifySpy);
+            pubSub.channels.on('Test', () => {
+                attempts++;
+                throw new Error('boom');
+            });
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: '{"a":1}',
+            });
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            assert.equal(attempts, 2);
+            assert.equal(
+                spy
+                    .getCalls()
+                    .filter(({ args: [text] }) => /dead_letter/.test(text))
+                    .length,
+                2, // table bootstrap and insert
+            );
+            assert.equal(
+                notifySpy.calledWith('DeadLetters', {
+                    id: 7,
+                    channel: 'Test',
+                    payload: { a: 1 },
+                    error: 'boom',
+                    attempts: 2,
+                    app: (pgClient as any).appName,
+                }),
+                true,
+            );
+        });
+        it('should park message once if dead letter publish fails', async () => {
+            const spy = fakeQuery([[/INSERT INTO .*dead_letter/, [{ id: 7 }]]]);
+            const errors = makeSpy();
+            let attempts = 0;
+
+            pubSub.on('error', errors);
+            pubSub.channel('DeadLetters', {
+                validate: (_payload): _payload is never => false,
+            });
+            pubSub.channels.on('Test', () => {
+                attempts++;
+                throw new Error('boom');
+            });
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: '{"a":1}',
+            });
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            assert.equal(attempts, 2);
+            assert.equal(
+                spy
+                    .getCalls()
+                    .filter(({ args: [text] }) =>
+                        /INSERT INTO .*dead_letter/.test(text),
+                    ).length,
+                1,
+            );
+            assert.ok(
+                errors
+                    .getCalls()
+                    .some(({ args: [err] }: any) => err instanceof TypeError),
+            );
+        });
+        it('should not park message once handled', async () => {
+            const spy = fakeQuery([]);
+            let attempts = 0;
+
+            pubSub.channels.on('Test', () => {
+                if (++attempts === 1) {
+                    throw new Error('boom');
+                }
+            });
+            await pubSub.listen('Test');
+            pgClient.emit('notification', {
+                channel: 'Test',
+                payload: '{"a":1}',
+            });
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            assert.equal(attempts, 2);
+            assert.equal(
+                spy
+                    .getCalls()
+                    .some(({ args: [text] }) => /dead_letter/.test(text)),
+                false,
+            );
+        });
+        it('should re-drive dead letter', async () => {
+            fakeQuery([
+                [
+                    /DELETE FROM .*dead_letter/,
+                    [{ id: 7, channel: 'Test', body: '{"a":1}', attempts: 2 }],
+                ],
+            ]);
+
+            const notifySpy = makeSpy();
+
+            pubSub.on('notify', notifySpy);
+
+            assert.equal(await pubSub.redrive(7), true);
+            assert.equal(notifySpy.calledWith('Test', { a: 1 }), true);
+        });
+        it('should park dead letter back if re-drive fails', async () => {
+            const spy = fakeQuery([
+                [
+                    /DELETE FROM .*dead_letter/,
+                    [
+                        {
+                            id: 7,
+                            channel: 'Test',
+                            body: '{"a":1}',
+                            error: 'boom',
+                            attempts: 2,
+                        },
+                    ],
+                ],
+                [/INSERT INTO .*dead_letter/, [{ id: 8 }]],
+            ]);
+
+            pubSub.channel('Test', {
+                validate: (_payload): _payload is never => false,
+            });
+
+            await assert.rejects(pubSub.redrive(7), TypeError);
+            assert.ok(
+                spy
+                    .getCalls()
+                    .some(({ args: [text] }) =>
+                        /INSERT INTO .*dead_letter/.test(text),
+                    ),
+            );
+        });
+        it('should not re-drive missing dead letter', async () => {
+            assert.equal(await pubSub.redrive(7), false);
+        });
+        it('should list dead letters', async () => {
+            const spy = fakeQuery([
+                [
+                    /SELECT .* FROM .*dead_letter/,
+                    [{ id: 7, channel: 'Test', body: '{"a":1}', attempts: 2 }],
+                ],
+            ]);
+            const [letter] = await pubSub.deadLetters('Test');
+
+            assert.equal(letter.id, 7);
+            assert.deepEqual(letter.payload, { a: 1 });
             assert.ok(
                 spy
                     .getCalls()
                     .some(
-                        ({ args: [arg] }) =>
-                            String(arg).trim() === `NOTIFY "Test", '{"a":"b"}'`,
+                        ({ args: [text, values] }) =>
+                            /WHERE channel = \$1/.test(text) &&
+                            values?.[0] === 'Test',
                     ),
             );
         });
@@ -0,0 +1,151 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spy as makeSpy } from './mocks/spy.js';
+import './mocks/index.js';
+
+import { Client } from 'pg';
+import {
+    NOTIFY_MANY_STATEMENT,
+    NOTIFY_STATEMENT,
+    PgPublisher,
+    PgPubSub,
+} from '../src/index.js';
+
+describe('PgPublisher', () => {
+    let pool: any;
+    let publisher: PgPublisher;
+
+    beforeEach(() => {
+        pool = new Client({});
+        publisher = new PgPublisher({ publishPool: pool });
+    });
+
+    it('should be a class', () => {
+        assert.equal(typeof PgPublisher, 'function');
+    });
+
+    describe('notify()', () => {
+        it('should publish over the given pool only', async () => {
+            const spy = makeSpy(pool, 'query');
+            const notify = makeSpy();
+
+            publisher.on('notify', notify);
+            await publisher.notify('Test', { a: 1 });
+
+            assert.equal(spy.calledOnce, true);
+            assert.equal(spy.getCalls()[0].args[0].name, NOTIFY_STATEMENT);
+            assert.deepEqual(spy.getCalls()[0].args[0].values, [
+                'Test',
+                '{"a":1}',
+            ]);
+            assert.equal(notify.calledWith('Test', { a: 1 }), true);
+        });
+        it('should resolve pool factory once on publish', async () => {
+            const factory = makeSpy().returns(pool);
+
+            publisher = new PgPublisher({ publishPool: factory });
+            assert.equal(factory.called, false);
+            await publisher.notify('Test', true);
+            await publisher.notifyMany([{ channel: 'Test', payload: 1 }]);
+
+            assert.equal(factory.calledOnce, true);
+        });
+        it('should bootstrap stores once with pool factory', async () => {
+            publisher = new PgPublisher({
+                publishPool: () => Object.create(pool),
+                durable: true,
+            });
+
+            const spy = makeSpy(pool, 'query').resolves({
+                rows: [{ seq: '1' }],
+            });
+
+            await publisher.notify('Test', 1);
+            await publisher.notify('Test', 2);
+
+            const creates = spy
+                .getCalls()
+                .filter(({ args: [query] }: any) =>
+                    /CREATE SCHEMA/.test(String(query?.text ?? query)),
+                );
+
+            assert.equal(creates.length, 1);
+        });
+        it('should reject without publishing pool', async () => {
+            publisher = new PgPublisher({});
+
+            await assert.rejects(publisher.notify('Test', true), TypeError);
+        });
+        it('should reject oversized payload unless chunked', async () => {
+            await assert.rejects(
+                publisher.notify('Test', 'x'.repeat(9000)),
+                RangeError,
+            );
+        });
+    });
+    describe('notifyMany()', () => {
+        it('should publish batch in a single statement', async () => {
+            const spy = makeSpy(pool, 'query');
+
+            await publisher.notifyMany([
+                { channel: 'One', payload: 1 },
+                { channel: 'Two', payload: 2 },
+            ]);
+
+            assert.equal(spy.calledOnce, true);
+            assert.equal(spy.getCalls()[0].args[0].name, NOTIFY_MANY_STATEMENT);
+        });
+        it('should send and report identical messages once', async () => {
+            const spy = makeSpy(pool, 'query');
+            const notify = makeSpy();
+
+            publisher.on('notify', notify);
+            await publisher.notifyMany([
+                { channel: 'One', payload: 1 },
+                { channel: 'One', payload: 1 },
+                { channel: 'Two', payload: 1 },
+            ]);
+
+            assert.deepEqual(spy.getCalls()[0].args[0].values, [
+                ['One', 'Two'],
+                ['1', '1'],
+            ]);
+            assert.equal(notify.getCalls().length, 2);
+        });
+    });
+    describe('PgPubSub publishPool option', () => {
+        it('should publish over the pool instead of listener', async () => {
+            const pgClient = new Client({}) as any;
+            const pubSub = new PgPubSub({ pgClient, publishPool: pool });
+            const poolSpy = makeSpy(pool, 'query');
+            const clientSpy = makeSpy(pgClient, 'query');
+
+            await pubSub.notify('Test', true);
+
+            assert.equal(poolSpy.calledOnce, true);
+            assert.equal(clientSpy.called, false);
+            await pubSub.destroy();
+        });
+    });
+});
@@ -21,10 +21,24 @@
  */
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { stub as makeStub } from './mocks/spy.js';
+import { spy as makeSpy, stub as makeStub } from './mocks/spy.js';
 import './mocks/index.js';
 
-import { type AnyLogger, pack, unpack } from '../index.js';
+import {
+    type AnyLogger,
+    backoffStrategy,
+    bootstrapOnce,
+    cappedBackoff,
+    decorrelatedJitterBackoff,
+    exponentialBackoff,
+    fragment,
+    linearBackoff,
+    matchTopic,
+    pack,
+    shardOf,
+    splitHosts,
+    unpack,
+} from '../index.js';
 
 describe('helpers', () => {
     // mock logger
@@ -89,4 +103,176 @@ describe('helpers', () => {
             assert.equal(unpack(global as any), null);
         });
     });
+
+    describe('fragment()', () => {
+        it('should split payload into sequenced fragments', () => {
+            const packed = pack({ text: 'ü'.repeat(100) });
+            const fragments = fragment(packed, 30);
+
+            assert.equal(
+                fragments.length,
+                Math.ceil(Buffer.byteLength(packed) / 30),
+            );
+            fragments.forEach((part, seq) => {
+                assert.equal(part.id, fragments[0].id);
+                assert.equal(part.seq, seq);
+                assert.equal(part.total, fragments.length);
+            });
+            assert.equal(
+                Buffer.concat(
+                    fragments.map(({ data }) => Buffer.from(data, 'base64')),
+                ).toString('utf8'),
+                packed,
+            );
+        });
+    });
+
+    describe('matchTopic()', () => {
+        it('should match exact routing keys', () => {
+            assert.equal(matchTopic('orders.eu', 'orders.eu'), true);
+            assert.equal(matchTopic('orders.eu', 'orders.us'), false);
+            assert.equal(matchTopic('orders', 'orders.eu'), false);
+        });
+        it('should match single word with *', () => {
+            assert.equal(
+                matchTopic('orders.*.created', 'orders.eu.created'),
+                true,
+            );
+            assert.equal(
+                matchTopic('orders.*.created', 'orders.created'),
+                false,
+            );
+            assert.equal(matchTopic('orders.*', 'orders.eu.created'), false);
+        });
+        it('should match zero or more words with #', () => {
+            assert.equal(matchTopic('orders.#', 'orders'), true);
+            assert.equal(matchTopic('orders.#', 'orders.eu.created'), true);
+            assert.equal(matchTopic('#.created', 'orders.eu.created'), true);
+            assert.equal(
+                matchTopic('orders.#.created', 'orders.created'),
+                true,
+            );
+            assert.equal(matchTopic('orders.#', 'users.eu'), false);
+        });
+    });
+    describe('backoff strategies', () => {
+        it('should double exponential delays', () => {
+            const backoff = exponentialBackoff(100);
+
+            assert.deepEqual(
+                [1, 2, 3, 4].map(attempt => backoff(attempt)),
+                [100, 200, 400, 800],
+            );
+        });
+        it('should grow linear delays', () => {
+            const backoff = linearBackoff(100);
+
+            assert.deepEqual(
+                [1, 2, 3, 4].map(attempt => backoff(attempt)),
+                [100, 200, 300, 400],
+            );
+        });
+        it('should cap delays', () => {
+            const backoff = cappedBackoff(exponentialBackoff(100), 300);
+
+            assert.deepEqual(
+                [1, 2, 3, 4].map(attempt => backoff(attempt)),
+                [100, 200, 300, 300],
+            );
+        });
+        it('should keep decorrelated jitter delays within bounds', () => {
+            const backoff = decorrelatedJitterBackoff(100, 1000);
+            let previous = 100;
+
+            for (let attempt = 1; attempt <= 20; attempt++) {
+                const delay = backoff(attempt);
+
+                assert.ok(delay >= 100);
+                assert.ok(delay <= Math.min(1000, previous * 3 + 1));
+                previous = delay;
+            }
+        });
+        it('should build built-in strategies by name', () => {
+            assert.equal(backoffStrategy('constant', 100, 50)(10), 100);
+            const capped = backoffStrategy('capped', 100, 250);
+
+            assert.deepEqual(
+                [1, 2, 3, 4].map(attempt => capped(attempt)),
+                [100, 200, 250, 250],
+            );
+            assert.equal(backoffStrategy('exponential', 100, 1000)(10), 1000);
+            assert.ok(
+                backoffStrategy('decorrelatedJitter', 100, 1000)(1) >= 100,
+            );
+        });
+    });
+    describe('shardOf()', () => {
+        const keys = Array.from({ length: 200 }, (_, i) => `channel${i}`);
+
+        it('should map keys to shards within range', () => {
+            for (const key of keys) {
+                const shard = shardOf(key, 5);
+
+                assert.ok(shard >= 0 && shard < 5);
+                assert.equal(shardOf(key, 5), shard);
+            }
+        });
+        it('should move keys only to a new shard when growing', () => {
+            for (const key of keys) {
+                const shard = shardOf(key, 6);
+
+                assert.ok(shard === shardOf(key, 5) || shard === 5);
+            }
+        });
+        it('should spread keys across all shards', () => {
+            const used = new Set(keys.map(key => shardOf(key, 4)));
+
+            assert.equal(used.size, 4);
+        });
+    });
+    describe('splitHosts()', () => {
+        it('should split multi-host connection string', () => {
+            assert.deepEqual(
+                splitHosts('postgres://u:p@one:5432,two:5433/db?ssl=true'),
+                [
+                    'postgres://u:p@one:5432/db?ssl=true',
+                    'postgres://u:p@two:5433/db?ssl=true',
+                ],
+            );
+        });
+        it('should keep single-host connection string as is', () => {
+            assert.deepEqual(splitHosts('postgres://one/db'), [
+                'postgres://one/db',
+            ]);
+        });
+    });
+    describe('bootstrapOnce()', () => {
+        it('should run bootstrap once per client and name', async () => {
+            const client = {};
+            const create = makeSpy().resolves(undefined);
+
+            await Promise.all([
+                bootstrapOnce(client, 'one', create as any),
+                bootstrapOnce(client, 'one', create as any),
+            ]);
+            await bootstrapOnce(client, 'two', create as any);
+            await bootstrapOnce({}, 'one', create as any);
+
+            assert.equal(create.getCalls().length, 3);
+        });
+        it('should retry failed bootstrap', async () => {
+            const client = {};
+            let calls = 0;
+            const create = async () => {
+                if (!calls++) {
+                    throw new Error('Bootstrap failed');
+                }
+            };
+
+            await assert.rejects(bootstrapOnce(client, 'one', create));
+            await bootstrapOnce(client, 'one', create);
+
+            assert.equal(calls, 2);
+        });
+    });
 });
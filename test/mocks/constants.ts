@@ -27,3 +27,4 @@ export const SHUTDOWN_TIMEOUT = 10;
 export const RETRY_DELAY = 10;
 export const RETRY_LIMIT = 3;
 export const ACQUIRE_INTERVAL = 10;
+export const FRAGMENT_TIMEOUT = 20;
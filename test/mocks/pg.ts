@@ -26,35 +26,44 @@ let id = 0;
 
 export interface ClientConfig {
     connectionString?: string;
+    host?: string;
+    port?: number;
 }
 
 export class Client extends EventEmitter {
-    public constructor(_options: ClientConfig) {
+    public constructor(public readonly options: ClientConfig) {
         super();
         this.setMaxListeners(Infinity);
     }
     public connect() {
         this.emit('connect');
     }
-    public end() {
+    public async end() {
         this.emit('end');
     }
-    public async query(queryText: string) {
-        if (/^NOTIFY\s/.test(queryText)) {
-            let [, channel, payload] = queryText.split(/\s+/);
+    public async query(
+        query: string | { text: string; values?: any[] },
+        params?: any[],
+    ) {
+        const queryText = typeof query === 'string' ? query : query.text;
+        const values = typeof query === 'string' ? params : query.values;
 
-            channel = channel.replace(/",?/g, '');
-            payload = payload.replace(/^'|'$/g, '');
-
-            const message: Notification = {
-                channel,
-                payload,
+        if (/PG_NOTIFY\(\$1, \$2\)/i.test(queryText)) {
+            this.emit('notification', {
+                channel: values![0],
+                payload: values![1],
                 processId: ++id,
-            };
-
-            this.emit('notification', message);
-            return;
+            } as Notification);
+        } else if (/PG_NOTIFY.*UNNEST\(\$1/i.test(queryText)) {
+            values![0].forEach((channel: string, i: number) =>
+                this.emit('notification', {
+                    channel,
+                    payload: values![1][i],
+                    processId: ++id,
+                } as Notification),
+            );
         }
+
         return { rows: [] };
     }
 }